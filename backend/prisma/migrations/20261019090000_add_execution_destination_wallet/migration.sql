@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "executions" ADD COLUMN     "destination_wallet" TEXT;
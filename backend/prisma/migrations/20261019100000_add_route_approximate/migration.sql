@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "routes" ADD COLUMN     "approximate" BOOLEAN NOT NULL DEFAULT false;
@@ -0,0 +1,36 @@
+-- CreateTable
+CREATE TABLE "provider_health_checks" (
+    "id" TEXT NOT NULL,
+    "provider" TEXT NOT NULL,
+    "is_healthy" BOOLEAN NOT NULL,
+    "response_time_ms" INTEGER NOT NULL,
+    "error_message" TEXT,
+    "checked_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "provider_health_checks_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "provider_uptime" (
+    "id" TEXT NOT NULL,
+    "provider" TEXT NOT NULL,
+    "period" TEXT NOT NULL,
+    "period_start" TIMESTAMP(3) NOT NULL,
+    "total_checks" INTEGER NOT NULL,
+    "healthy_checks" INTEGER NOT NULL,
+    "uptime_percentage" DOUBLE PRECISION NOT NULL,
+    "average_response_time_ms" DOUBLE PRECISION NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "provider_uptime_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "provider_health_checks_provider_checked_at_idx" ON "provider_health_checks"("provider", "checked_at");
+
+-- CreateIndex
+CREATE INDEX "provider_health_checks_checked_at_idx" ON "provider_health_checks"("checked_at");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "provider_uptime_provider_period_period_start_key" ON "provider_uptime"("provider", "period", "period_start");
@@ -0,0 +1,9 @@
+-- The schema has mapped ApiUsage to "api_usages" with a "status" column
+-- since it was added, but the original migration created "api_usage" with
+-- "status_code". Bring migrated databases in line with the schema before
+-- usage is recorded.
+ALTER TABLE "api_usage" RENAME TO "api_usages";
+ALTER TABLE "api_usages" RENAME COLUMN "status_code" TO "status";
+ALTER TABLE "api_usages" RENAME CONSTRAINT "api_usage_pkey" TO "api_usages_pkey";
+ALTER TABLE "api_usages" RENAME CONSTRAINT "api_usage_api_key_id_fkey" TO "api_usages_api_key_id_fkey";
+ALTER INDEX "api_usage_api_key_id_created_at_idx" RENAME TO "api_usages_api_key_id_created_at_idx";
@@ -0,0 +1,20 @@
+-- DropIndex
+DROP INDEX "api_keys_key_idx";
+
+-- AlterTable
+ALTER TABLE "api_keys" ALTER COLUMN "key" DROP NOT NULL,
+ADD COLUMN     "key_hash" TEXT,
+ADD COLUMN     "key_prefix" TEXT,
+ADD COLUMN     "last_used_at" TIMESTAMP(3),
+ADD COLUMN     "rotated_at" TIMESTAMP(3),
+ADD COLUMN     "revoked_at" TIMESTAMP(3),
+ADD COLUMN     "renamed_at" TIMESTAMP(3);
+
+-- Existing keys keep their prefix; the hash needs API_KEY_SALT and is
+-- filled in (and the plaintext cleared) by the API keys service at startup
+UPDATE "api_keys" SET "key_prefix" = substring("key" from 1 for 11);
+
+ALTER TABLE "api_keys" ALTER COLUMN "key_prefix" SET NOT NULL;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "api_keys_key_hash_key" ON "api_keys"("key_hash");
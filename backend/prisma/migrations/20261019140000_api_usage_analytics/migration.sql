@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "api_usages" ADD COLUMN     "pair" TEXT;
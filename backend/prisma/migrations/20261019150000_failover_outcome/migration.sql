@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "executions" ADD COLUMN     "strategy" TEXT;
+
+-- AlterTable
+ALTER TABLE "failover_attempts" ALTER COLUMN "was_successful" DROP NOT NULL;
@@ -0,0 +1,13 @@
+-- EVM wallets are stored lowercase so lookups match any checksum casing.
+-- Keep the most recently updated preference where two differ only by case.
+DELETE FROM "user_preferences" p
+USING "user_preferences" q
+WHERE p."user_wallet" ~ '^0x[0-9a-fA-F]{40}$'
+  AND lower(p."user_wallet") = lower(q."user_wallet")
+  AND (p."updated_at", p."id") < (q."updated_at", q."id");
+
+UPDATE "user_preferences" SET "user_wallet" = lower("user_wallet")
+WHERE "user_wallet" ~ '^0x[0-9a-fA-F]{40}$';
+
+UPDATE "api_keys" SET "user_wallet" = lower("user_wallet")
+WHERE "user_wallet" ~ '^0x[0-9a-fA-F]{40}$';
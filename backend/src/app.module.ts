@@ -9,12 +9,16 @@ import { PrismaModule } from './config/prisma.module';
 import { AppConfigService } from './config/app-config.service';
 import { validationSchema } from './config/env.validation';
 import { HealthModule } from './common/health/health.module';
+import { MetricsModule } from './common/metrics/metrics.module';
 import { ProvidersModule } from './modules/providers/providers.module';
 import { QuotesModule } from './modules/quotes/quotes.module';
 import { RoutesModule } from './modules/routes/routes.module';
+import { ExecutionsModule } from './modules/executions/executions.module';
 import { StrategyModule } from './modules/strategy/strategy.module';
 import { ApiKeysModule } from './modules/api-keys/api-keys.module';
+import { AuthModule } from './modules/auth/auth.module';
 import { AiModule } from './modules/ai/ai.module';
+import { RealtimeModule } from './modules/realtime/realtime.module';
 import { TokensController } from './modules/tokens.controller';
 
 @Module({
@@ -56,18 +60,26 @@ import { TokensController } from './modules/tokens.controller';
     PrismaModule,
     // Health check module
     HealthModule,
+    // Prometheus metrics
+    MetricsModule,
     // Provider integrations
     ProvidersModule,
     // Quotes aggregation
     QuotesModule,
     // Route scoring and comparison
     RoutesModule,
+    // Route execution lifecycle
+    ExecutionsModule,
     // Strategy management
     StrategyModule,
     // API Keys management
     ApiKeysModule,
+    // Wallet sign-in
+    AuthModule,
     // AI Agent
     AiModule,
+    // WebSocket push updates
+    RealtimeModule,
   ],
   controllers: [AppController, TokensController],
   providers: [AppService, AppConfigService],
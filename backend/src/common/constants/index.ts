@@ -7,3 +7,4 @@ export * from './chains.enum';
 export * from './providers.enum';
 export * from './status.enum';
 export * from './risk.enum';
+export * from './rate-limit.enum';
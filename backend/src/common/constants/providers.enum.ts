@@ -61,6 +61,15 @@ export const PROVIDER_TIMEOUTS: Record<Provider, number> = {
   [Provider.CHANGENOW]: 8000, // CEX-based, slower
 };
 
+/**
+ * Quote cache lifetime per provider (seconds)
+ */
+export const PROVIDER_QUOTE_CACHE_TTLS: Record<Provider, number> = {
+  [Provider.LIFI]: 60,
+  [Provider.MAYAN]: 30,
+  [Provider.CHANGENOW]: 15, // CEX estimates move with the order book
+};
+
 /**
  * Max retry attempts per provider
  */
@@ -69,3 +78,9 @@ export const PROVIDER_MAX_RETRIES: Record<Provider, number> = {
   [Provider.MAYAN]: 3,
   [Provider.CHANGENOW]: 2,
 };
+
+/**
+ * Provider uptime reporting windows
+ */
+export const UPTIME_WINDOWS = ['24h', '7d', '30d'] as const;
+export type UptimeWindow = (typeof UPTIME_WINDOWS)[number];
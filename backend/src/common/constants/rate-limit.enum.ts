@@ -0,0 +1,41 @@
+/**
+ * Rate Limit Enums & Constants
+ * API key tiers, the endpoint categories they are limited by, and usage
+ * report intervals
+ */
+
+/**
+ * API key tier, sets the per-window request limit
+ */
+export enum ApiKeyTier {
+  FREE = 'free',
+  PRO = 'pro',
+  ENTERPRISE = 'enterprise',
+}
+
+/**
+ * Endpoint category; each has its own window per API key
+ */
+export enum RateLimitCategory {
+  DEFAULT = 'default',
+  QUOTE = 'quote',
+  EXECUTION = 'execution',
+  AI = 'ai',
+}
+
+/**
+ * Share of the tier limit each category gets. Execution and AI chat are
+ * far more expensive per call than quotes.
+ */
+export const RATE_LIMIT_CATEGORY_SHARE: Record<RateLimitCategory, number> = {
+  [RateLimitCategory.DEFAULT]: 1,
+  [RateLimitCategory.QUOTE]: 1,
+  [RateLimitCategory.EXECUTION]: 0.5,
+  [RateLimitCategory.AI]: 0.2,
+};
+
+/**
+ * Usage analytics bucket sizes
+ */
+export const USAGE_INTERVALS = ['hour', 'day'] as const;
+export type UsageInterval = (typeof USAGE_INTERVALS)[number];
@@ -40,6 +40,15 @@ export enum HealthStatus {
   UNKNOWN = 'unknown',
 }
 
+/**
+ * Provider circuit breaker state
+ */
+export enum CircuitState {
+  CLOSED = 'closed', // Provider is queried normally
+  OPEN = 'open', // Skipped until a health check probe succeeds
+  HALF_OPEN = 'half_open', // Probe passed; the next live quote decides
+}
+
 /**
  * Quote cache status
  */
@@ -0,0 +1,38 @@
+/**
+ * API Key Request DTOs
+ * Validates API key creation and renaming
+ */
+
+import { IsNotEmpty, IsOptional, IsString, MaxLength } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+const MAX_KEY_NAME_LENGTH = 64;
+
+export class CreateApiKeyDto {
+  @ApiProperty({
+    description: 'Wallet that owns the key',
+    example: '0x742d35Cc6634C0532925a3b844Bc9e7595f0bEb',
+  })
+  @IsString()
+  @IsNotEmpty()
+  user_wallet: string;
+
+  @ApiPropertyOptional({
+    description: 'Label shown in key listings',
+    example: 'Production',
+    default: 'Default Key',
+  })
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(MAX_KEY_NAME_LENGTH)
+  name?: string;
+}
+
+export class RenameApiKeyDto {
+  @ApiProperty({ description: 'New label for the key', example: 'Staging' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(MAX_KEY_NAME_LENGTH)
+  name: string;
+}
@@ -0,0 +1,57 @@
+/**
+ * Auth Request DTOs
+ * Validates wallet sign-in challenge and verification requests
+ */
+
+import {
+  IsEnum,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Min,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { ChainType } from '../constants';
+
+export class WalletChallengeRequestDto {
+  @ApiProperty({
+    description: 'Wallet address to sign in with',
+    example: '0x742d35Cc6634C0532925a3b844Bc9e7595f0bEb',
+  })
+  @IsString()
+  @IsNotEmpty()
+  address: string;
+
+  @ApiProperty({ enum: ChainType, example: ChainType.EVM })
+  @IsEnum(ChainType)
+  chain_type: ChainType;
+
+  @ApiPropertyOptional({
+    description: 'EVM chain ID the wallet is connected to',
+    example: 1,
+    default: 1,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  chain_id?: number;
+}
+
+export class WalletSignInRequestDto {
+  @ApiProperty({ description: 'Challenge message exactly as issued' })
+  @IsString()
+  @IsNotEmpty()
+  message: string;
+
+  @ApiProperty({
+    description:
+      'Signature of the message: 0x hex (EVM personal_sign) or base58 (Solana)',
+    example: '0x...',
+  })
+  @IsString()
+  @IsNotEmpty()
+  signature: string;
+}
@@ -10,9 +10,11 @@ import {
   IsNumber,
   Min,
   Max,
+  IsEnum,
 } from 'class-validator';
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
 import { Type } from 'class-transformer';
+import type { StrategyType } from '../interfaces';
 
 export class ExecuteRouteRequestDto {
   @ApiProperty({
@@ -31,6 +33,15 @@ export class ExecuteRouteRequestDto {
   @IsNotEmpty()
   user_wallet: string;
 
+  @ApiPropertyOptional({
+    description:
+      'Recipient on the destination chain (required when it uses a different VM than the source)',
+    example: '9WzDXwBbmkg8ZTbNMqUxvQRAyrZzDsGYdLVL9zYtAWWM',
+  })
+  @IsOptional()
+  @IsString()
+  destination_wallet?: string;
+
   @ApiPropertyOptional({
     description: 'Override slippage tolerance (percentage)',
     example: 1.5,
@@ -43,4 +54,27 @@ export class ExecuteRouteRequestDto {
   @Min(0.1)
   @Max(5.0)
   slippage_tolerance?: number;
+
+  @ApiPropertyOptional({
+    description:
+      'Scoring strategy the route was quoted with (used to rank failover routes)',
+    enum: [
+      'lowest_cost',
+      'fast_execution',
+      'safety_first',
+      'portfolio_balanced',
+      'custom',
+    ],
+    example: 'lowest_cost',
+  })
+  @IsOptional()
+  @IsString()
+  @IsEnum([
+    'lowest_cost',
+    'fast_execution',
+    'safety_first',
+    'portfolio_balanced',
+    'custom',
+  ])
+  strategy?: StrategyType;
 }
@@ -34,6 +34,25 @@ export class TransactionDataDto {
   nonce?: number;
 }
 
+/**
+ * Unsigned Solana transaction to be signed
+ */
+export class SolanaTransactionDataDto {
+  @ApiProperty({
+    description: 'Base64 serialized VersionedTransaction',
+    example: 'AQAAAAAAAAAAAAAAAAAAAAAAAAAA...',
+  })
+  serialized_transaction: string;
+
+  @ApiPropertyOptional({
+    example: 'EkSnNWid2cvwEVnVx9aBqawnmiCNiDgp3gUdkDPTKN1N',
+  })
+  recent_blockhash?: string;
+
+  @ApiPropertyOptional({ example: 285410234 })
+  last_valid_block_height?: number;
+}
+
 /**
  * Response after building transaction for execution
  */
@@ -44,8 +63,26 @@ export class ExecutionResponseDto {
   @ApiProperty({ example: '550e8400-e29b-41d4-a716-446655440001' })
   route_id: string;
 
-  @ApiProperty({ type: TransactionDataDto })
-  transaction_data: TransactionDataDto;
+  @ApiProperty({ enum: ['evm', 'solana'], example: 'evm' })
+  chain_type: string;
+
+  @ApiPropertyOptional({
+    type: TransactionDataDto,
+    description: 'Unsigned transaction for EVM source chains',
+  })
+  transaction_data?: TransactionDataDto;
+
+  @ApiPropertyOptional({
+    type: TransactionDataDto,
+    description: 'ERC-20 approval to sign before transaction_data',
+  })
+  approval_data?: TransactionDataDto;
+
+  @ApiPropertyOptional({
+    type: SolanaTransactionDataDto,
+    description: 'Unsigned transaction for Solana source chains',
+  })
+  solana_transaction?: SolanaTransactionDataDto;
 
   @ApiProperty({ example: 'awaiting_signature' })
   status: string;
@@ -4,6 +4,7 @@
  */
 
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { ExecutionResponseDto } from './execution-response.dto';
 
 export class ExecutionStatusResponseDto {
   @ApiProperty({ example: '550e8400-e29b-41d4-a716-446655440000' })
@@ -15,6 +16,18 @@ export class ExecutionStatusResponseDto {
   @ApiPropertyOptional({ example: '0x123abc...' })
   transaction_hash?: string;
 
+  @ApiPropertyOptional({ example: '0x123abc...' })
+  source_transaction_hash?: string;
+
+  @ApiPropertyOptional({ example: '0x456def...' })
+  destination_transaction_hash?: string;
+
+  @ApiPropertyOptional({ example: '99850000' })
+  received_amount?: string;
+
+  @ApiPropertyOptional({ example: 'WAIT_DESTINATION_TRANSACTION' })
+  substatus?: string;
+
   @ApiPropertyOptional({ example: 5 })
   confirmations?: number;
 
@@ -27,6 +40,13 @@ export class ExecutionStatusResponseDto {
   @ApiPropertyOptional({ example: 'Insufficient gas' })
   error_message?: string;
 
+  @ApiPropertyOptional({
+    type: ExecutionResponseDto,
+    description:
+      'Unsigned transaction awaiting the wallet signature (e.g. after a failover)',
+  })
+  pending_transaction?: ExecutionResponseDto;
+
   @ApiProperty({ example: '2024-01-20T10:32:15Z' })
   timestamp: string;
 }
@@ -108,3 +108,13 @@ export class GetQuoteRequestDto {
   @IsString()
   user_wallet?: string;
 }
+
+export class StreamQuoteRequestDto extends GetQuoteRequestDto {
+  @ApiPropertyOptional({
+    description:
+      'API key, for EventSource clients that cannot send the x-api-key header',
+  })
+  @IsOptional()
+  @IsString()
+  api_key?: string;
+}
@@ -7,6 +7,11 @@
 export * from './get-quote-request.dto';
 export * from './execute-route-request.dto';
 export * from './submit-signed-transaction.dto';
+export * from './provider-uptime-request.dto';
+export * from './api-key-request.dto';
+export * from './auth-request.dto';
+export * from './usage-analytics-request.dto';
+export * from './save-strategy-request.dto';
 
 // Response DTOs
 export * from './quote-response.dto';
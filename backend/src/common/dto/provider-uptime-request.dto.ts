@@ -0,0 +1,20 @@
+/**
+ * Provider Uptime Request DTO
+ * Validates the reporting window for provider uptime
+ */
+
+import { IsIn, IsOptional } from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { UPTIME_WINDOWS } from '../constants';
+import type { UptimeWindow } from '../constants';
+
+export class ProviderUptimeRequestDto {
+  @ApiPropertyOptional({
+    description: 'Reporting window (hourly buckets for 24h, daily otherwise)',
+    enum: UPTIME_WINDOWS,
+    default: '24h',
+  })
+  @IsOptional()
+  @IsIn(UPTIME_WINDOWS)
+  window?: UptimeWindow = '24h';
+}
@@ -5,6 +5,7 @@
 
 import { ApiProperty } from '@nestjs/swagger';
 import type { RouteScore } from '../interfaces';
+import { CacheStatus } from '../constants';
 
 /**
  * Individual route step details
@@ -119,6 +120,14 @@ export class NormalizedRouteDto {
   @ApiProperty({ example: 1 })
   rank?: number;
 
+  @ApiProperty({
+    required: false,
+    example: false,
+    description:
+      'Rescaled from a cached quote for a nearby amount; re-quoted on execution',
+  })
+  approximate?: boolean;
+
   @ApiProperty({ type: [RouteStepDto] })
   steps: RouteStepDto[];
 }
@@ -143,11 +152,16 @@ export class QuoteResponseDto {
   response_time_ms: number;
 
   @ApiProperty({
+    description:
+      'Per-provider outcome: success, failed, or circuit_open when the provider was skipped',
     example: {
       lifi: 'success',
       mayan: 'success',
-      changenow: 'timeout',
+      changenow: 'circuit_open',
     },
   })
   provider_statuses: Record<string, string>;
+
+  @ApiProperty({ enum: CacheStatus, example: CacheStatus.MISS })
+  cache_status: CacheStatus;
 }
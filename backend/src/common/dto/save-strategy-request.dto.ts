@@ -0,0 +1,69 @@
+/**
+ * Save Strategy Request DTO
+ * Validates custom scoring weights saved for the signed-in wallet
+ */
+
+import {
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Max,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import type { ScoringWeights } from '../interfaces';
+
+export class ScoringWeightsDto implements ScoringWeights {
+  @ApiProperty({ example: 0.4, minimum: 0, maximum: 1 })
+  @IsNumber()
+  @Min(0)
+  @Max(1)
+  fee_weight: number;
+
+  @ApiProperty({ example: 0.2, minimum: 0, maximum: 1 })
+  @IsNumber()
+  @Min(0)
+  @Max(1)
+  speed_weight: number;
+
+  @ApiProperty({ example: 0.2, minimum: 0, maximum: 1 })
+  @IsNumber()
+  @Min(0)
+  @Max(1)
+  reliability_weight: number;
+
+  @ApiProperty({ example: 0.1, minimum: 0, maximum: 1 })
+  @IsNumber()
+  @Min(0)
+  @Max(1)
+  slippage_weight: number;
+
+  @ApiProperty({ example: 0.1, minimum: 0, maximum: 1 })
+  @IsNumber()
+  @Min(0)
+  @Max(1)
+  liquidity_weight: number;
+}
+
+export class SaveStrategyRequestDto {
+  @ApiPropertyOptional({
+    description:
+      'Wallet to save the strategy for; must be the signed-in wallet. Defaults to it.',
+    example: '0x742d35Cc6634C0532925a3b844Bc9e7595f0bEb',
+  })
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  user_wallet?: string;
+
+  @ApiProperty({
+    description: 'Scoring weights; must sum to 1.0',
+    type: ScoringWeightsDto,
+  })
+  @ValidateNested()
+  @Type(() => ScoringWeightsDto)
+  weights: ScoringWeightsDto;
+}
@@ -3,9 +3,12 @@
  * Validates signed transactions for blockchain submission
  */
 
-import { IsString, IsNotEmpty, IsOptional } from 'class-validator';
+import { IsString, IsNotEmpty, IsOptional, Matches } from 'class-validator';
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
 
+// 0x-prefixed hex (EVM raw transaction) or base64 (Solana serialized transaction)
+const SIGNED_TRANSACTION_PATTERN = /^(0x[0-9a-fA-F]+|[A-Za-z0-9+/]+={0,2})$/;
+
 export class SubmitSignedTransactionDto {
   @ApiProperty({
     description: 'Execution ID from build transaction response',
@@ -21,11 +24,16 @@ export class SubmitSignedTransactionDto {
   })
   @IsString()
   @IsNotEmpty()
+  @Matches(SIGNED_TRANSACTION_PATTERN, {
+    message: 'signed_transaction must be 0x-prefixed hex or base64',
+  })
   signed_transaction: string;
 
   @ApiPropertyOptional({
-    description: 'Signature for Solana transactions',
-    example: 'base64_encoded_signature',
+    description:
+      'Base58 fee payer signature for Solana transactions — optional, must match the signature in signed_transaction',
+    example:
+      '5VERv8NMvzbJMEkV8xnrLkEaWRtSz9CosKDYjCJjBRnbJLgp8uirBgmQpjKhoR4tjF3ZpRzrFmBV6UjKdiSZkQUW',
   })
   @IsOptional()
   @IsString()
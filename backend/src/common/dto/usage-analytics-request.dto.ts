@@ -0,0 +1,61 @@
+/**
+ * Usage Analytics Request DTO
+ * Validates the time range, bucket size and filters for API usage reports
+ */
+
+import {
+  IsDate,
+  IsIn,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  IsUUID,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { USAGE_INTERVALS } from '../constants';
+import type { UsageInterval } from '../constants';
+
+export class UsageAnalyticsRequestDto {
+  @ApiPropertyOptional({
+    description: 'Bucket size',
+    enum: USAGE_INTERVALS,
+    default: 'day',
+  })
+  @IsOptional()
+  @IsIn(USAGE_INTERVALS)
+  interval?: UsageInterval = 'day';
+
+  @ApiPropertyOptional({
+    description:
+      'Start of the range (ISO 8601), default 24 hours (hourly) or 7 days (daily) before `to`',
+    example: '2026-10-01T00:00:00Z',
+  })
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  from?: Date;
+
+  @ApiPropertyOptional({
+    description: 'End of the range (ISO 8601), default now',
+    example: '2026-10-08T00:00:00Z',
+  })
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  to?: Date;
+
+  @ApiPropertyOptional({ description: 'Only this API key' })
+  @IsOptional()
+  @IsUUID()
+  api_key_id?: string;
+
+  @ApiPropertyOptional({
+    description: 'Only this endpoint',
+    example: 'POST /quotes',
+  })
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  endpoint?: string;
+}
@@ -6,7 +6,10 @@ import {
 } from '@nestjs/terminus';
 import { RedisHealthIndicator } from './redis.health';
 import { DatabaseHealthIndicator } from './database.health';
+import { ProviderHealthIndicator } from './provider.health';
+import { Public } from '../../modules/api-keys/public.decorator';
 
+@Public()
 @Controller('health')
 export class HealthController {
   constructor(
@@ -14,6 +17,7 @@ export class HealthController {
     private http: HttpHealthIndicator,
     private redisHealthIndicator: RedisHealthIndicator,
     private databaseHealthIndicator: DatabaseHealthIndicator,
+    private providerHealthIndicator: ProviderHealthIndicator,
   ) {}
 
   @Get()
@@ -22,6 +26,8 @@ export class HealthController {
     return this.health.check([
       () => this.redisHealthIndicator.isHealthy('redis'),
       () => this.databaseHealthIndicator.isHealthy('database'),
+      // Providers are reported on /health/providers only: an upstream
+      // outage should not fail this instance's own health check
       // Add more health checks as needed
     ]);
   }
@@ -41,4 +47,12 @@ export class HealthController {
       () => this.databaseHealthIndicator.isHealthy('database'),
     ]);
   }
+
+  @Get('providers')
+  @HealthCheck()
+  checkProviders() {
+    return this.health.check([
+      () => this.providerHealthIndicator.isHealthy('providers'),
+    ]);
+  }
 }
@@ -4,10 +4,16 @@ import { HttpModule } from '@nestjs/axios';
 import { HealthController } from './health.controller';
 import { RedisHealthIndicator } from './redis.health';
 import { DatabaseHealthIndicator } from './database.health';
+import { ProviderHealthIndicator } from './provider.health';
+import { ProvidersModule } from '../../modules/providers/providers.module';
 
 @Module({
-  imports: [TerminusModule, HttpModule],
+  imports: [TerminusModule, HttpModule, ProvidersModule],
   controllers: [HealthController],
-  providers: [RedisHealthIndicator, DatabaseHealthIndicator],
+  providers: [
+    RedisHealthIndicator,
+    DatabaseHealthIndicator,
+    ProviderHealthIndicator,
+  ],
 })
 export class HealthModule {}
@@ -0,0 +1,41 @@
+/**
+ * Provider Health Indicator
+ * Reports each bridge provider's health status; down only when no
+ * provider can serve quotes
+ */
+
+import { Injectable } from '@nestjs/common';
+import {
+  HealthIndicator,
+  HealthIndicatorResult,
+  HealthCheckError,
+} from '@nestjs/terminus';
+import { ProviderHealthService } from '../../modules/providers/provider-health.service';
+import { HealthStatus } from '../constants';
+
+@Injectable()
+export class ProviderHealthIndicator extends HealthIndicator {
+  constructor(private readonly providerHealthService: ProviderHealthService) {
+    super();
+  }
+
+  isHealthy(key: string): HealthIndicatorResult {
+    const reports = this.providerHealthService.getHealthReports();
+    // UNKNOWN (not yet checked) does not count against availability
+    const isHealthy =
+      reports.length === 0 ||
+      reports.some((report) => report.status !== HealthStatus.UNHEALTHY);
+
+    const result = this.getStatus(key, isHealthy, {
+      providers: Object.fromEntries(
+        reports.map(({ provider, ...report }) => [provider, report]),
+      ),
+    });
+
+    if (!isHealthy) {
+      throw new HealthCheckError('All providers are unhealthy', result);
+    }
+
+    return result;
+  }
+}
@@ -3,15 +3,22 @@
  * Defines transaction lifecycle and execution tracking
  */
 
+import { ChainType } from '../constants';
+
 /**
  * Transaction request for route execution
+ * Chain-aware envelope: EVM sources fill transaction_data (and approval_data
+ * when an allowance is needed), Solana sources fill solana_transaction.
  */
 export interface TransactionRequest {
   route_id: string;
   user_wallet: string;
   chain_id: string;
+  chain_type: ChainType;
   slippage_tolerance?: number;
-  transaction_data: TransactionData;
+  transaction_data?: TransactionData;
+  approval_data?: TransactionData; // ERC-20 approval to sign before transaction_data
+  solana_transaction?: SolanaTransactionData;
 }
 
 /**
@@ -28,13 +35,25 @@ export interface TransactionData {
   nonce?: number;
 }
 
+/**
+ * Unsigned Solana transaction to be signed by the wallet
+ */
+export interface SolanaTransactionData {
+  serialized_transaction: string; // base64 VersionedTransaction
+  recent_blockhash?: string;
+  last_valid_block_height?: number;
+}
+
 /**
  * Execution response after transaction is built
  */
 export interface ExecutionResponse {
   execution_id: string;
   route_id: string;
-  transaction_data: TransactionData;
+  chain_type: ChainType;
+  transaction_data?: TransactionData;
+  approval_data?: TransactionData;
+  solana_transaction?: SolanaTransactionData;
   status: ExecutionStatus;
   created_at: Date;
   expires_at: Date;
@@ -59,6 +78,10 @@ export interface ExecutionStatusUpdate {
   execution_id: string;
   status: ExecutionStatus;
   transaction_hash?: string;
+  source_transaction_hash?: string;
+  destination_transaction_hash?: string;
+  received_amount?: string;
+  substatus?: string; // Provider-specific detail, e.g. WAIT_DESTINATION_TRANSACTION
   confirmations?: number;
   block_number?: number;
   estimated_completion?: Date;
@@ -104,10 +127,23 @@ export interface ExecutionRecord {
  */
 export interface SignedTransactionSubmission {
   execution_id: string;
-  signed_transaction: string;
+  signed_transaction: string; // 0x-prefixed raw tx (EVM) or base64 (Solana)
   signature?: string; // For Solana
 }
 
+/**
+ * Outcome of sending a signed transaction to a chain RPC
+ */
+export interface BroadcastResult {
+  success: boolean;
+  transaction_hash: string;
+  already_known?: boolean; // Node had already seen or mined this transaction
+  // rejected: the node refused the tx for good (invalid, insufficient funds)
+  // rpc_error: outcome unknown (timeout, reset, 5xx) — it may still land
+  error_code?: 'nonce_too_low' | 'blockhash_expired' | 'rejected' | 'rpc_error';
+  error_message?: string;
+}
+
 /**
  * Transaction confirmation data
  */
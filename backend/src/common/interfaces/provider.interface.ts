@@ -3,6 +3,7 @@
  * Defines standard methods and health checks for providers
  */
 
+import { CircuitState, HealthStatus } from '../constants';
 import { NormalizedRoute, QuoteParams } from './routes.interface';
 import {
   TransactionRequest,
@@ -22,7 +23,23 @@ export interface ProviderHealthStatus {
 }
 
 /**
- * Base interface that all provider connectors must implement
+ * Latest health check plus rolling-window latency and error rate
+ */
+export interface ProviderHealthReport {
+  provider: string;
+  status: HealthStatus;
+  is_healthy: boolean; // Latest health check passed
+  last_checked?: Date;
+  error_message?: string;
+  latency_ms: { p50: number; p95: number; p99: number };
+  error_rate: number; // 0-1 over the window
+  sample_count: number;
+  circuit_state: CircuitState;
+}
+
+/**
+ * Base interface that all provider connectors must implement.
+ * `signal` aborts the underlying request when the call times out.
  */
 export interface ProviderConnector {
   /**
@@ -38,30 +55,39 @@ export interface ProviderConnector {
   /**
    * Get a quote for a cross-chain swap
    */
-  getQuote(params: QuoteParams): Promise<NormalizedRoute>;
+  getQuote(params: QuoteParams, signal?: AbortSignal): Promise<NormalizedRoute>;
 
   /**
    * Get multiple quotes (for route comparison)
    */
-  getQuotes?(params: QuoteParams): Promise<NormalizedRoute[]>;
+  getQuotes?(
+    params: QuoteParams,
+    signal?: AbortSignal,
+  ): Promise<NormalizedRoute[]>;
 
   /**
    * Build transaction data for execution
+   * destinationWallet defaults to userWallet when both chains share a VM
    */
   buildTransaction(
     routeId: string,
     userWallet: string,
+    destinationWallet?: string,
+    signal?: AbortSignal,
   ): Promise<TransactionRequest>;
 
   /**
    * Get execution status by transaction hash
    */
-  getStatus(transactionHash: string): Promise<ExecutionStatusUpdate>;
+  getStatus(
+    transactionHash: string,
+    signal?: AbortSignal,
+  ): Promise<ExecutionStatusUpdate>;
 
   /**
    * Health check - verify provider API is responsive
    */
-  healthCheck(): Promise<ProviderHealthStatus>;
+  healthCheck(signal?: AbortSignal): Promise<ProviderHealthStatus>;
 
   /**
    * Check if provider supports this route
@@ -85,6 +111,7 @@ export interface ProviderConfig {
   timeout_ms: number;
   retry_attempts: number;
   priority: number; // For provider ordering
+  quote_cache_ttl: number; // seconds a cached quote is served as fresh
 }
 
 /**
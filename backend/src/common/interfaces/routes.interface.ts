@@ -9,7 +9,7 @@
  */
 export interface NormalizedRoute {
   route_id: string;
-  provider: 'lifi' | 'mayan' | 'changenow';
+  provider: string; // Name of a connector registered in ProviderRegistry
 
   // Chain and token information
   source_chain: string;
@@ -20,6 +20,9 @@ export interface NormalizedRoute {
   // Amounts (in smallest unit - wei/lamports)
   input_amount: string;
   output_amount: string;
+  // When the provider reports it; bounds the precision of human-readable
+  // (fractional) output amounts when a route is rescaled
+  destination_token_decimals?: number;
 
   // Fee breakdown
   total_fee: RouteFee;
@@ -41,6 +44,10 @@ export interface NormalizedRoute {
   // Raw data for debugging
   raw_provider_data: any;
 
+  // Rescaled from a cached quote for a nearby amount (bucketed cache);
+  // must be re-quoted exactly before execution
+  approximate?: boolean;
+
   // Metadata
   created_at?: Date;
   expires_at?: Date;
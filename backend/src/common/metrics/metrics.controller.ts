@@ -0,0 +1,28 @@
+/**
+ * Metrics Controller
+ * Prometheus scrape endpoint
+ */
+
+import { Controller, Get, Header, NotFoundException } from '@nestjs/common';
+import { MetricsService } from './metrics.service';
+import { Public } from '../../modules/api-keys/public.decorator';
+
+// Scrapers don't send API keys; PROMETHEUS_ENABLED gates the endpoint
+@Public()
+@Controller('metrics')
+export class MetricsController {
+  constructor(private metricsService: MetricsService) {}
+
+  /**
+   * GET /metrics
+   * Prometheus scrape endpoint, 404 unless PROMETHEUS_ENABLED
+   */
+  @Get()
+  @Header('Content-Type', 'text/plain; version=0.0.4; charset=utf-8')
+  async getMetrics(): Promise<string> {
+    if (!this.metricsService.isEnabled()) {
+      throw new NotFoundException();
+    }
+    return this.metricsService.registry.metrics();
+  }
+}
@@ -0,0 +1,17 @@
+/**
+ * Metrics Module
+ * Provides Prometheus metrics as a global module
+ */
+
+import { Global, Module } from '@nestjs/common';
+import { MetricsController } from './metrics.controller';
+import { MetricsService } from './metrics.service';
+import { AppConfigService } from '../../config/app-config.service';
+
+@Global()
+@Module({
+  controllers: [MetricsController],
+  providers: [MetricsService, AppConfigService],
+  exports: [MetricsService],
+})
+export class MetricsModule {}
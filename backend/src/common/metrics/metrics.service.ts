@@ -0,0 +1,172 @@
+/**
+ * Metrics Service
+ * Prometheus series for quotes, provider health, agent tools, Anthropic
+ * token usage and queue depths. Exposed at /metrics when
+ * PROMETHEUS_ENABLED is set.
+ */
+
+import { Injectable } from '@nestjs/common';
+import { Queue } from 'bullmq';
+import {
+  Counter,
+  Gauge,
+  Histogram,
+  Registry,
+  collectDefaultMetrics,
+} from 'prom-client';
+import { AppConfigService } from '../../config/app-config.service';
+
+const PREFIX = 'xroh_';
+const QUEUE_STATES = [
+  'waiting',
+  'active',
+  'delayed',
+  'failed',
+  'completed',
+] as const;
+const QUEUE_COUNT_TIMEOUT_MS = 1000;
+
+async function getJobCounts(
+  queue: Queue,
+): Promise<Record<string, number> | null> {
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<null>((resolve) => {
+    timer = setTimeout(() => resolve(null), QUEUE_COUNT_TIMEOUT_MS);
+  });
+
+  try {
+    return await Promise.race([queue.getJobCounts(...QUEUE_STATES), timeout]);
+  } catch {
+    return null;
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+@Injectable()
+export class MetricsService {
+  readonly registry = new Registry();
+  private readonly queues: Queue[] = [];
+
+  private readonly quoteDuration = new Histogram({
+    name: `${PREFIX}quote_duration_seconds`,
+    help: 'Live provider quote latency',
+    labelNames: ['provider'],
+    buckets: [0.1, 0.25, 0.5, 1, 2, 4, 8, 16],
+    registers: [this.registry],
+  });
+
+  private readonly quotes = new Counter({
+    name: `${PREFIX}quotes_total`,
+    help: 'Live provider quotes by outcome (success, failure)',
+    labelNames: ['provider', 'outcome'],
+    registers: [this.registry],
+  });
+
+  private readonly quoteCacheLookups = new Counter({
+    name: `${PREFIX}quote_cache_lookups_total`,
+    help: 'Quote cache lookups by status (hit, stale, expired, miss)',
+    labelNames: ['provider', 'status'],
+    registers: [this.registry],
+  });
+
+  private readonly healthCheckDuration = new Histogram({
+    name: `${PREFIX}provider_health_check_duration_seconds`,
+    help: 'Provider health check duration',
+    labelNames: ['provider', 'healthy'],
+    buckets: [0.1, 0.25, 0.5, 1, 2, 4, 8, 16],
+    registers: [this.registry],
+  });
+
+  private readonly toolCalls = new Counter({
+    name: `${PREFIX}agent_tool_calls_total`,
+    help: 'Agent tool calls by outcome (success, failure)',
+    labelNames: ['tool', 'outcome'],
+    registers: [this.registry],
+  });
+
+  private readonly toolDuration = new Histogram({
+    name: `${PREFIX}agent_tool_duration_seconds`,
+    help: 'Agent tool call latency',
+    labelNames: ['tool'],
+    buckets: [0.05, 0.1, 0.25, 0.5, 1, 2, 5, 10, 30],
+    registers: [this.registry],
+  });
+
+  private readonly anthropicTokens = new Counter({
+    name: `${PREFIX}anthropic_tokens_total`,
+    help: 'Anthropic API token usage by type (input, output)',
+    labelNames: ['model', 'type'],
+    registers: [this.registry],
+  });
+
+  constructor(private readonly configService: AppConfigService) {
+    // Queue depths are read at scrape time
+    const queues = this.queues;
+    new Gauge({
+      name: `${PREFIX}queue_jobs`,
+      help: 'BullMQ jobs by queue and state',
+      labelNames: ['queue', 'state'],
+      registers: [this.registry],
+      async collect() {
+        this.reset();
+        for (const queue of queues) {
+          const counts = await getJobCounts(queue);
+          if (!counts) continue; // Redis unreachable: skip, don't stall the scrape
+          for (const state of QUEUE_STATES) {
+            this.set({ queue: queue.name, state }, counts[state] ?? 0);
+          }
+        }
+      },
+    });
+
+    if (this.isEnabled()) {
+      collectDefaultMetrics({ register: this.registry, prefix: PREFIX });
+    }
+  }
+
+  isEnabled(): boolean {
+    return this.configService.getMonitoringConfig().prometheusEnabled;
+  }
+
+  /**
+   * Report this queue's depth in xroh_queue_jobs
+   */
+  trackQueue(queue: Queue): void {
+    this.queues.push(queue);
+  }
+
+  recordQuote(provider: string, durationMs: number, success: boolean): void {
+    this.quoteDuration.observe({ provider }, durationMs / 1000);
+    this.quotes.inc({ provider, outcome: success ? 'success' : 'failure' });
+  }
+
+  recordQuoteCacheLookup(provider: string, status: string): void {
+    this.quoteCacheLookups.inc({ provider, status });
+  }
+
+  recordHealthCheck(
+    provider: string,
+    durationMs: number,
+    healthy: boolean,
+  ): void {
+    this.healthCheckDuration.observe(
+      { provider, healthy: String(healthy) },
+      durationMs / 1000,
+    );
+  }
+
+  recordToolCall(tool: string, durationMs: number, success: boolean): void {
+    this.toolDuration.observe({ tool }, durationMs / 1000);
+    this.toolCalls.inc({ tool, outcome: success ? 'success' : 'failure' });
+  }
+
+  recordAnthropicUsage(
+    model: string,
+    inputTokens: number,
+    outputTokens: number,
+  ): void {
+    this.anthropicTokens.inc({ model, type: 'input' }, inputTokens);
+    this.anthropicTokens.inc({ model, type: 'output' }, outputTokens);
+  }
+}
@@ -1,5 +1,13 @@
 import { Injectable } from '@nestjs/common';
 import { ConfigService as NestConfigService } from '@nestjs/config';
+import {
+  Provider,
+  PROVIDER_MAX_RETRIES,
+  PROVIDER_PRIORITY,
+  PROVIDER_QUOTE_CACHE_TTLS,
+  PROVIDER_TIMEOUTS,
+} from '../common/constants';
+import { ProviderConfig } from '../common/interfaces';
 
 @Injectable()
 export class AppConfigService {
@@ -98,6 +106,20 @@ export class AppConfigService {
     };
   }
 
+  // Bridge status APIs (overridable so tests can use a local stand-in)
+  getBridgeStatusApis() {
+    return {
+      lifi: this.configService.get<string>(
+        'LIFI_API_URL',
+        'https://li.quest/v1',
+      ),
+      mayanExplorer: this.configService.get<string>(
+        'MAYAN_EXPLORER_API_URL',
+        'https://explorer-api.mayan.finance/v3',
+      ),
+    };
+  }
+
   // API Keys
   getApiKeys() {
     return {
@@ -114,6 +136,48 @@ export class AppConfigService {
     };
   }
 
+  // Provider Config — <NAME>_ENABLED, <NAME>_PRIORITY, <NAME>_API_URL, ...
+  getProviderConfig(name: string): ProviderConfig {
+    const prefix = name.toUpperCase();
+    const provider = name as Provider;
+    const enabled = this.configService.get<boolean | string>(
+      `${prefix}_ENABLED`,
+    );
+
+    return {
+      name,
+      enabled: enabled === undefined || String(enabled) !== 'false',
+      api_key: this.configService.get<string>(`${prefix}_API_KEY`),
+      api_url: this.configService.get<string>(`${prefix}_API_URL`, ''),
+      timeout_ms: Number(
+        this.configService.get(
+          `${prefix}_TIMEOUT_MS`,
+          PROVIDER_TIMEOUTS[provider] ?? 15000,
+        ),
+      ),
+      retry_attempts: Number(
+        this.configService.get(
+          `${prefix}_MAX_RETRIES`,
+          PROVIDER_MAX_RETRIES[provider] ?? 2,
+        ),
+      ),
+      priority: Number(
+        this.configService.get(
+          `${prefix}_PRIORITY`,
+          PROVIDER_PRIORITY[provider] ?? 100,
+        ),
+      ),
+      // <NAME>_QUOTE_CACHE_TTL, then QUOTE_CACHE_TTL when set, then the
+      // built-in per-provider default
+      quote_cache_ttl: Number(
+        this.configService.get(`${prefix}_QUOTE_CACHE_TTL`) ??
+          this.configService.get('QUOTE_CACHE_TTL') ??
+          PROVIDER_QUOTE_CACHE_TTLS[provider] ??
+          this.getCacheTtls().quote,
+      ),
+    };
+  }
+
   // Rate Limits
   getRateLimits() {
     return {
@@ -132,6 +196,8 @@ export class AppConfigService {
   getCacheTtls() {
     return {
       quote: this.configService.get<number>('QUOTE_CACHE_TTL', 30),
+      // Extra time an expired quote may be served while it is refreshed
+      quoteStale: this.configService.get<number>('QUOTE_CACHE_STALE_TTL', 30),
       price: this.configService.get<number>('PRICE_CACHE_TTL', 30),
       balance: this.configService.get<number>('BALANCE_CACHE_TTL', 120),
       providerHealth: this.configService.get<number>(
@@ -141,6 +207,57 @@ export class AppConfigService {
     };
   }
 
+  // Quote cache amount bucketing — amounts within `band` (relative) share
+  // a cache entry and get a linearly rescaled, approximate route
+  getQuoteBucketing() {
+    return {
+      enabled: this.configService.get<boolean>('QUOTE_CACHE_BUCKETING', false),
+      band: this.configService.get<number>('QUOTE_CACHE_BUCKET_BAND', 0.01),
+    };
+  }
+
+  // Provider circuit breaker — opens after `failureThreshold` consecutive
+  // failures and stays open for at least `openSeconds`
+  getCircuitBreakerConfig() {
+    return {
+      failureThreshold: this.configService.get<number>(
+        'PROVIDER_CIRCUIT_FAILURE_THRESHOLD',
+        3,
+      ),
+      openSeconds: this.configService.get<number>(
+        'PROVIDER_CIRCUIT_OPEN_SECONDS',
+        30,
+      ),
+    };
+  }
+
+  // Provider health classification — rolling window length and the p95
+  // latency / error rate at which a provider is DEGRADED or UNHEALTHY
+  getProviderHealthThresholds() {
+    return {
+      windowSeconds: this.configService.get<number>(
+        'PROVIDER_HEALTH_WINDOW_SECONDS',
+        900,
+      ),
+      degradedP95Ms: this.configService.get<number>(
+        'PROVIDER_HEALTH_DEGRADED_P95_MS',
+        2000,
+      ),
+      unhealthyP95Ms: this.configService.get<number>(
+        'PROVIDER_HEALTH_UNHEALTHY_P95_MS',
+        5000,
+      ),
+      degradedErrorRate: this.configService.get<number>(
+        'PROVIDER_HEALTH_DEGRADED_ERROR_RATE',
+        0.1,
+      ),
+      unhealthyErrorRate: this.configService.get<number>(
+        'PROVIDER_HEALTH_UNHEALTHY_ERROR_RATE',
+        0.5,
+      ),
+    };
+  }
+
   // Queue Config
   getQueueConfig() {
     return {
@@ -159,6 +276,15 @@ export class AppConfigService {
       apiKeySalt: this.configService.get<string>('API_KEY_SALT'),
       jwtSecret: this.configService.get<string>('JWT_SECRET'),
       jwtExpiration: this.configService.get<string>('JWT_EXPIRATION', '7d'),
+      // Wallet sign-in messages name the dapp that asks for the signature
+      authDomain: this.configService.get<string>(
+        'AUTH_DOMAIN',
+        'localhost:3001',
+      ),
+      authUri: this.configService.get<string>(
+        'AUTH_URI',
+        'http://localhost:3001',
+      ),
     };
   }
 
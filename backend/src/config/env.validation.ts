@@ -33,6 +33,10 @@ export const validationSchema = Joi.object({
   SOLANA_RPC_MAINNET: Joi.string().optional(),
   SOLANA_RPC_DEVNET: Joi.string().optional(),
   ETHEREUM_RPC_URL: Joi.string().optional(),
+  POLYGON_RPC_URL: Joi.string().optional(),
+  ARBITRUM_RPC_URL: Joi.string().optional(),
+  OPTIMISM_RPC_URL: Joi.string().optional(),
+  BASE_RPC_URL: Joi.string().optional(),
 
   // Swap & Bridge APIs
   JUPITER_API: Joi.string().default('https://lite-api.jup.ag/swap/v1'),
@@ -43,18 +47,47 @@ export const validationSchema = Joi.object({
   // Bridge Provider Keys
   LIFI_API_KEY: Joi.string().optional(),
   MAYAN_API_URL: Joi.string().default('https://price-api.mayan.finance/v3'),
+  LIFI_API_URL: Joi.string().default('https://li.quest/v1'),
+  MAYAN_EXPLORER_API_URL: Joi.string().default(
+    'https://explorer-api.mayan.finance/v3',
+  ),
   CHANGENOW_API_KEY: Joi.string().optional(),
   COINGECKO_API_KEY: Joi.string().allow('').optional(),
   COINMARKETCAP_API_KEY: Joi.string().allow('').optional(),
   OPENAI_API_KEY: Joi.string().allow('').optional(),
   ANTHROPIC_API_KEY: Joi.string().allow('').optional(),
 
+  // Provider Registry (per-environment toggles and ordering)
+  LIFI_ENABLED: Joi.boolean().default(true),
+  LIFI_PRIORITY: Joi.number().optional(),
+  MAYAN_ENABLED: Joi.boolean().default(true),
+  MAYAN_PRIORITY: Joi.number().optional(),
+  CHANGENOW_ENABLED: Joi.boolean().default(true),
+  CHANGENOW_PRIORITY: Joi.number().optional(),
+  LIFI_QUOTE_CACHE_TTL: Joi.number().optional(),
+  MAYAN_QUOTE_CACHE_TTL: Joi.number().optional(),
+  CHANGENOW_QUOTE_CACHE_TTL: Joi.number().optional(),
+  PROVIDER_CIRCUIT_FAILURE_THRESHOLD: Joi.number().min(1).default(3),
+  PROVIDER_CIRCUIT_OPEN_SECONDS: Joi.number().min(0).default(30),
+  PROVIDER_HEALTH_WINDOW_SECONDS: Joi.number().min(60).default(900),
+  PROVIDER_HEALTH_DEGRADED_P95_MS: Joi.number().default(2000),
+  PROVIDER_HEALTH_UNHEALTHY_P95_MS: Joi.number().default(5000),
+  PROVIDER_HEALTH_DEGRADED_ERROR_RATE: Joi.number().min(0).max(1).default(0.1),
+  PROVIDER_HEALTH_UNHEALTHY_ERROR_RATE: Joi.number().min(0).max(1).default(0.5),
+
   // Rate Limiting
   RATE_LIMIT_TTL: Joi.number().default(60),
   RATE_LIMIT_MAX: Joi.number().default(100),
+  RATE_LIMIT_FREE_TIER: Joi.number().default(10),
+  RATE_LIMIT_PRO_TIER: Joi.number().default(100),
+  RATE_LIMIT_ENTERPRISE_TIER: Joi.number().default(1000),
+  TRUST_PROXY_HOPS: Joi.number().default(0),
 
   // Caching
   QUOTE_CACHE_TTL: Joi.number().default(30),
+  QUOTE_CACHE_STALE_TTL: Joi.number().default(30),
+  QUOTE_CACHE_BUCKETING: Joi.boolean().default(false),
+  QUOTE_CACHE_BUCKET_BAND: Joi.number().min(0).max(0.2).default(0.01),
   PRICE_CACHE_TTL: Joi.number().default(30),
   BALANCE_CACHE_TTL: Joi.number().default(120),
 
@@ -65,9 +98,19 @@ export const validationSchema = Joi.object({
 
   // Security
   CORS_ORIGINS: Joi.string().default('http://localhost:3000'),
-  API_KEY_SALT: Joi.string().optional(),
-  JWT_SECRET: Joi.string().optional(),
+  API_KEY_SALT: Joi.string().when('NODE_ENV', {
+    is: 'production',
+    then: Joi.required(),
+    otherwise: Joi.optional(),
+  }),
+  JWT_SECRET: Joi.string().when('NODE_ENV', {
+    is: 'production',
+    then: Joi.required(),
+    otherwise: Joi.optional(),
+  }),
   JWT_EXPIRATION: Joi.string().default('7d'),
+  AUTH_DOMAIN: Joi.string().default('localhost:3001'),
+  AUTH_URI: Joi.string().uri().default('http://localhost:3001'),
 
   // Feature Flags
   ENABLE_AUTO_FAILOVER: Joi.boolean().default(true),
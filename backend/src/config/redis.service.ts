@@ -118,6 +118,18 @@ export class RedisService implements OnModuleInit, OnModuleDestroy {
     await c.del(key);
   }
 
+  // SET NX — true when this caller set the key (always true without Redis)
+  async setIfAbsent(
+    key: string,
+    value: string,
+    ttlSeconds: number,
+  ): Promise<boolean> {
+    const c = this.client;
+    if (!c) return true;
+    const result = await c.set(key, value, 'EX', ttlSeconds, 'NX');
+    return result === 'OK';
+  }
+
   async exists(key: string): Promise<boolean> {
     const c = this.client;
     if (!c) return false;
@@ -1,10 +1,14 @@
 import { NestFactory } from '@nestjs/core';
 import { ValidationPipe } from '@nestjs/common';
+import { NestExpressApplication } from '@nestjs/platform-express';
 import { Logger } from 'nestjs-pino';
 import { AppModule } from './app.module';
+import { RealtimeIoAdapter } from './modules/realtime/realtime-io.adapter';
 
 async function bootstrap() {
-  const app = await NestFactory.create(AppModule, { bufferLogs: true });
+  const app = await NestFactory.create<NestExpressApplication>(AppModule, {
+    bufferLogs: true,
+  });
 
   // Use Pino logger
   app.useLogger(app.get(Logger));
@@ -21,6 +25,9 @@ async function bootstrap() {
     }),
   );
 
+  // Real client IPs (for per-IP rate limits) behind reverse proxies
+  app.set('trust proxy', Number(process.env.TRUST_PROXY_HOPS || 0));
+
   // Enable CORS
   const corsOrigins = process.env.CORS_ORIGINS?.split(',') || [
     'http://localhost:3000',
@@ -28,8 +35,19 @@ async function bootstrap() {
   app.enableCors({
     origin: corsOrigins,
     credentials: true,
+    // Let browser clients read quota and rate limit state
+    exposedHeaders: [
+      'X-Quota-Remaining',
+      'X-RateLimit-Limit',
+      'X-RateLimit-Remaining',
+      'X-RateLimit-Reset',
+      'Retry-After',
+    ],
   });
 
+  // WebSocket gateway shares the HTTP server and CORS origins
+  app.useWebSocketAdapter(new RealtimeIoAdapter(app, corsOrigins));
+
   const port = process.env.PORT || 3000;
   await app.listen(port);
 
@@ -10,6 +10,7 @@ import Anthropic from '@anthropic-ai/sdk';
 import { SessionManagerService } from './session-manager.service';
 import { ToolExecutorService } from './tools/tool-executor.service';
 import { AGENT_TOOLS } from './tools/tool-definitions';
+import { MetricsService } from '../../common/metrics/metrics.service';
 import {
   AgentResponse,
   AgentMessage,
@@ -57,6 +58,7 @@ export class AgentService {
     private readonly configService: ConfigService,
     private readonly sessionManager: SessionManagerService,
     private readonly toolExecutor: ToolExecutorService,
+    private readonly metrics: MetricsService,
   ) {
     const apiKey = this.configService.get<string>('ANTHROPIC_API_KEY');
     if (apiKey) {
@@ -161,6 +163,11 @@ export class AgentService {
         tools: AGENT_TOOLS,
         messages,
       });
+      this.metrics.recordAnthropicUsage(
+        response.model,
+        response.usage.input_tokens,
+        response.usage.output_tokens,
+      );
 
       // Check if Claude wants to use a tool
       if (response.stop_reason === 'tool_use') {
@@ -8,6 +8,8 @@ import { ApiTags, ApiOperation, ApiBody, ApiResponse } from '@nestjs/swagger';
 import { IsString, IsOptional } from 'class-validator';
 import { AgentService } from './agent.service';
 import { ChatRequest, AgentResponse } from './interfaces';
+import { RateLimit } from '../api-keys/rate-limit.decorator';
+import { RateLimitCategory } from '../../common/constants';
 
 class ChatRequestDto {
   @IsString()
@@ -23,6 +25,7 @@ class ChatRequestDto {
 }
 
 @ApiTags('AI Agent')
+@RateLimit(RateLimitCategory.AI)
 @Controller('api/ai')
 export class AiController {
   private readonly logger = new Logger(AiController.name);
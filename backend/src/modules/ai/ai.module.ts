@@ -4,7 +4,7 @@
  * Imports ProvidersModule and RoutesModule so tools can access existing services.
  */
 
-import { Module } from '@nestjs/common';
+import { forwardRef, Module } from '@nestjs/common';
 import { AiController } from './ai.controller';
 import { AgentService } from './agent.service';
 import { SessionManagerService } from './session-manager.service';
@@ -18,9 +18,10 @@ import { ComputerUseController } from './computer-use.controller';
 import { SafetyService } from './safety.service';
 import { ProvidersModule } from '../providers/providers.module';
 import { RoutesModule } from '../routes/routes.module';
+import { RealtimeModule } from '../realtime/realtime.module';
 
 @Module({
-  imports: [ProvidersModule, RoutesModule],
+  imports: [ProvidersModule, RoutesModule, forwardRef(() => RealtimeModule)],
   controllers: [AiController, ComputerUseController],
   providers: [
     AgentService,
@@ -33,6 +34,6 @@ import { RoutesModule } from '../routes/routes.module';
     WalletToolsService,
     SafetyService,
   ],
-  exports: [AgentService],
+  exports: [AgentService, StateService],
 })
 export class AiModule {}
@@ -1,22 +1,27 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { Execution } from './interfaces/ai.interfaces';
+import { RealtimeEventsService } from '../realtime/realtime-events.service';
 
 /**
  * StateService (Stage 2)
  *
  * Minimal in-memory execution state store for simulation.
  * Later this can be moved to Prisma + Redis.
+ * Every write is pushed to WebSocket subscribers as plan progress.
  */
 @Injectable()
 export class StateService {
   private readonly logger = new Logger(StateService.name);
   private readonly executions = new Map<string, Execution>();
 
+  constructor(private readonly realtimeEvents: RealtimeEventsService) {}
+
   create(execution: Execution): void {
     this.executions.set(execution.id, execution);
     this.logger.debug(
       `Stored execution ${execution.id} with status ${execution.status}`,
     );
+    this.realtimeEvents.publishPlanProgress(execution);
   }
 
   update(execution: Execution): void {
@@ -26,6 +31,7 @@ export class StateService {
       );
     }
     this.executions.set(execution.id, execution);
+    this.realtimeEvents.publishPlanProgress(execution);
   }
 
   get(id: string): Execution | undefined {
@@ -5,10 +5,12 @@
  */
 
 import { Injectable, Logger } from '@nestjs/common';
-import { ChangenowService } from '../../providers/changenow/changenow.service';
+import { ProviderRegistry } from '../../providers/provider-registry.service';
 import { ProviderHealthService } from '../../providers/provider-health.service';
 import { ScoringService } from '../../routes/scoring.service';
 import { RouteComparisonService } from '../../routes/route-comparison.service';
+import { HealthStatus, Provider } from '../../../common/constants';
+import { MetricsService } from '../../../common/metrics/metrics.service';
 import { ToolContext, ToolResult } from '../interfaces';
 
 // Token metadata for supported tokens/chains
@@ -99,10 +101,11 @@ export class ToolExecutorService {
   private readonly logger = new Logger(ToolExecutorService.name);
 
   constructor(
-    private readonly changenow: ChangenowService,
+    private readonly providerRegistry: ProviderRegistry,
     private readonly providerHealth: ProviderHealthService,
     private readonly scoringService: ScoringService,
     private readonly routeComparison: RouteComparisonService,
+    private readonly metrics: MetricsService,
   ) {}
 
   /**
@@ -150,9 +153,11 @@ export class ToolExecutorService {
 
       const elapsed = Date.now() - startTime;
       this.logger.log(`Tool ${toolName} completed in ${elapsed}ms`);
+      this.metrics.recordToolCall(toolName, elapsed, result.success);
       return result;
     } catch (error) {
       const elapsed = Date.now() - startTime;
+      this.metrics.recordToolCall(toolName, elapsed, false);
       this.logger.error(
         `Tool ${toolName} failed after ${elapsed}ms: ${error.message}`,
       );
@@ -205,8 +210,17 @@ export class ToolExecutorService {
   ): Promise<ToolResult> {
     const srcChain = input.source_chain.toLowerCase();
     const dstChain = input.destination_chain.toLowerCase();
+    const changenow = this.providerRegistry.getProvider(Provider.CHANGENOW);
 
-    if (!this.changenow.supportsRoute(srcChain, dstChain)) {
+    if (!changenow) {
+      return {
+        success: false,
+        error: 'ChangeNOW is not enabled in this environment.',
+        displayMessage: 'Live quotes are currently unavailable.',
+      };
+    }
+
+    if (!changenow.supportsRoute(srcChain, dstChain)) {
       return {
         success: false,
         error: `Route from ${input.source_chain} to ${input.destination_chain} is not supported.`,
@@ -216,7 +230,7 @@ export class ToolExecutorService {
 
     try {
       // ── X1: real ChangeNOW quote ─────────────────────────────────────
-      const route = await this.changenow.getQuote({
+      const route = await changenow.getQuote({
         source_chain: srcChain,
         destination_chain: dstChain,
         source_token: input.source_token,
@@ -336,19 +350,21 @@ export class ToolExecutorService {
   }
 
   private async checkProviderHealth(): Promise<ToolResult> {
-    const statuses = this.providerHealth.getAllHealthStatuses();
-    const summary = statuses.map((status) => ({
-      provider: status.provider,
-      healthy: status.is_healthy,
-      responseTime: `${status.response_time_ms}ms`,
-      lastChecked: status.last_checked,
+    const reports = this.providerHealth.getHealthReports();
+    const summary = reports.map((report) => ({
+      provider: report.provider,
+      status: report.status,
+      healthy: report.status === HealthStatus.HEALTHY,
+      responseTimeP95: `${report.latency_ms.p95}ms`,
+      errorRate: report.error_rate,
+      lastChecked: report.last_checked,
     }));
 
     const healthyCount = summary.filter((s) => s.healthy).length;
     return {
       success: true,
       data: { providers: summary },
-      displayMessage: `${healthyCount}/${summary.length} providers are healthy. ${summary.map((s) => `${s.provider}: ${s.healthy ? 'healthy' : 'down'}`).join(', ')}.`,
+      displayMessage: `${healthyCount}/${summary.length} providers are healthy. ${summary.map((s) => `${s.provider}: ${s.status}`).join(', ')}.`,
     };
   }
 
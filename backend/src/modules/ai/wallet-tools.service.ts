@@ -1,6 +1,7 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { SignRequest, TransactionDescriptor } from './interfaces/ai.interfaces';
 import { StateService } from './state.service';
+import { RealtimeEventsService } from '../realtime/realtime-events.service';
 
 /**
  * WalletToolsService (Stage 3 foundation)
@@ -9,13 +10,17 @@ import { StateService } from './state.service';
  * - Backend never sees private keys.
  * - We just describe the transaction that should be signed.
  * - Frontend will fetch pending requests and send back signed transactions.
+ * - New requests and status changes are pushed over WebSockets too.
  */
 @Injectable()
 export class WalletToolsService {
   private readonly logger = new Logger(WalletToolsService.name);
   private readonly requests = new Map<string, SignRequest>();
 
-  constructor(private readonly stateService: StateService) {}
+  constructor(
+    private readonly stateService: StateService,
+    private readonly realtimeEvents: RealtimeEventsService,
+  ) {}
 
   createSignRequest(params: {
     executionId: string;
@@ -41,6 +46,7 @@ export class WalletToolsService {
     this.logger.log(
       `Created sign request ${id} for execution ${params.executionId} (wallet ${params.walletAddress})`,
     );
+    this.realtimeEvents.publishSignRequest(request);
 
     return request;
   }
@@ -66,6 +72,7 @@ export class WalletToolsService {
     req.updatedAt = new Date();
     this.requests.set(id, req);
     this.logger.log(`Sign request ${id} marked as signed`);
+    this.realtimeEvents.publishSignRequest(req);
     return req;
   }
 
@@ -80,6 +87,7 @@ export class WalletToolsService {
     req.updatedAt = new Date();
     this.requests.set(id, req);
     this.logger.log(`Sign request ${id} rejected: ${reason ?? 'no reason'}`);
+    this.realtimeEvents.publishSignRequest(req);
     return req;
   }
 }
@@ -0,0 +1,243 @@
+import {
+  ExecutionContext,
+  HttpException,
+  HttpStatus,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { SSE_METADATA } from '@nestjs/common/constants';
+import { Reflector } from '@nestjs/core';
+import { ApiKeyGuard } from './api-key.guard';
+import { ApiKeysService } from './api-keys.service';
+import { RateLimitService } from './rate-limit.service';
+import { IS_PUBLIC_KEY } from './public.decorator';
+import { ApiKeyTier, RateLimitCategory } from '../../common/constants';
+
+const VALID_KEY = { id: 'key-1', tier: ApiKeyTier.FREE };
+
+function setup(
+  options: {
+    isPublic?: boolean;
+    apiKey?: string;
+    sse?: boolean;
+    query?: Record<string, string>;
+  } = {},
+) {
+  const headers: Record<string, string> = {};
+  const request = {
+    ip: '203.0.113.7',
+    method: 'POST',
+    path: '/quotes',
+    route: { path: '/quotes' },
+    query: options.query ?? {},
+    body: {},
+    header: (name: string) =>
+      name === 'x-api-key' ? options.apiKey : undefined,
+  };
+  const response = {
+    statusCode: 200,
+    setHeader: jest.fn((name: string, value: string) => {
+      headers[name] = value;
+    }),
+    once: jest.fn(),
+  };
+  const context = {
+    getType: () => 'http',
+    getHandler: () => undefined,
+    getClass: () => undefined,
+    switchToHttp: () => ({
+      getRequest: () => request,
+      getResponse: () => response,
+    }),
+  } as unknown as ExecutionContext;
+
+  const reflector = {
+    getAllAndOverride: jest.fn((key: string) =>
+      key === IS_PUBLIC_KEY ? options.isPublic : undefined,
+    ),
+    get: jest.fn((key: string) =>
+      key === SSE_METADATA ? options.sse : undefined,
+    ),
+  };
+  const apiKeysService = {
+    validateKey: jest.fn().mockResolvedValue(VALID_KEY),
+    useKey: jest
+      .fn()
+      .mockResolvedValue({ ...VALID_KEY, available_requests: 41 }),
+    recordUsage: jest.fn(),
+  };
+  const rateLimitService = {
+    getKeyLimit: jest.fn().mockReturnValue(10),
+    getIpLimit: jest.fn().mockReturnValue(100),
+    consume: jest.fn().mockResolvedValue(null),
+  };
+
+  const guard = new ApiKeyGuard(
+    reflector as unknown as Reflector,
+    apiKeysService as unknown as ApiKeysService,
+    rateLimitService as unknown as RateLimitService,
+  );
+  return {
+    guard,
+    context,
+    headers,
+    response,
+    apiKeysService,
+    rateLimitService,
+  };
+}
+
+describe('ApiKeyGuard', () => {
+  it('rejects requests without a key with 401 and an auth challenge', async () => {
+    const { guard, context, headers } = setup();
+
+    await expect(guard.canActivate(context)).rejects.toBeInstanceOf(
+      UnauthorizedException,
+    );
+    expect(headers['WWW-Authenticate']).toBe('ApiKey header="x-api-key"');
+  });
+
+  it('rejects invalid keys with 401 and an auth challenge', async () => {
+    const { guard, context, headers, apiKeysService } = setup({
+      apiKey: 'xr_bad',
+    });
+    apiKeysService.validateKey.mockRejectedValue(
+      new UnauthorizedException('Invalid or inactive API key'),
+    );
+
+    await expect(guard.canActivate(context)).rejects.toBeInstanceOf(
+      UnauthorizedException,
+    );
+    expect(headers['WWW-Authenticate']).toBe('ApiKey header="x-api-key"');
+  });
+
+  it('reports the remaining quota and logs usage once the response closes', async () => {
+    const { guard, context, headers, response, apiKeysService } = setup({
+      apiKey: 'xr_good',
+    });
+
+    await expect(guard.canActivate(context)).resolves.toBe(true);
+    expect(headers['X-Quota-Remaining']).toBe('41');
+
+    const [event, onClose] = response.once.mock.calls[0] as [
+      string,
+      () => void,
+    ];
+    expect(event).toBe('close');
+    onClose();
+    expect(apiKeysService.recordUsage).toHaveBeenCalledWith(
+      'key-1',
+      'POST /quotes',
+      200,
+      expect.any(Number),
+      undefined,
+    );
+  });
+
+  it('reports an empty quota with the 429', async () => {
+    const { guard, context, headers, apiKeysService } = setup({
+      apiKey: 'xr_good',
+    });
+    apiKeysService.useKey.mockRejectedValue(
+      new HttpException('Quota exhausted', HttpStatus.TOO_MANY_REQUESTS),
+    );
+
+    await expect(guard.canActivate(context)).rejects.toMatchObject({
+      status: HttpStatus.TOO_MANY_REQUESTS,
+    });
+    expect(headers['X-Quota-Remaining']).toBe('0');
+  });
+
+  it('takes the key from the api_key query parameter on SSE routes', async () => {
+    const { guard, context, apiKeysService } = setup({
+      sse: true,
+      query: { api_key: 'xr_good' },
+    });
+
+    await expect(guard.canActivate(context)).resolves.toBe(true);
+    expect(apiKeysService.validateKey).toHaveBeenCalledWith('xr_good');
+  });
+
+  it('ignores the api_key query parameter on other routes', async () => {
+    const { guard, context } = setup({ query: { api_key: 'xr_good' } });
+
+    await expect(guard.canActivate(context)).rejects.toBeInstanceOf(
+      UnauthorizedException,
+    );
+  });
+
+  it('lets public routes through without a key', async () => {
+    const { guard, context, apiKeysService } = setup({ isPublic: true });
+
+    await expect(guard.canActivate(context)).resolves.toBe(true);
+    expect(apiKeysService.validateKey).not.toHaveBeenCalled();
+  });
+
+  describe('rate limits', () => {
+    let resetAt: number;
+    beforeEach(() => {
+      resetAt = Date.now() + 30_500;
+    });
+
+    it('limits keys per tier and category and sets the headers', async () => {
+      const { guard, context, headers, rateLimitService } = setup({
+        apiKey: 'xr_good',
+      });
+      rateLimitService.consume.mockResolvedValue({
+        allowed: true,
+        limit: 10,
+        remaining: 9,
+        reset_at: resetAt,
+      });
+
+      await expect(guard.canActivate(context)).resolves.toBe(true);
+      expect(rateLimitService.getKeyLimit).toHaveBeenCalledWith(
+        ApiKeyTier.FREE,
+        RateLimitCategory.DEFAULT,
+      );
+      expect(rateLimitService.consume).toHaveBeenCalledWith(
+        'key:key-1:default',
+        10,
+      );
+      expect(headers).toMatchObject({
+        'X-RateLimit-Limit': '10',
+        'X-RateLimit-Remaining': '9',
+        'X-RateLimit-Reset': String(Math.ceil(resetAt / 1000)),
+      });
+    });
+
+    it('rejects with 429 and Retry-After before spending the quota', async () => {
+      const { guard, context, headers, apiKeysService, rateLimitService } =
+        setup({ apiKey: 'xr_good' });
+      rateLimitService.consume.mockResolvedValue({
+        allowed: false,
+        limit: 10,
+        remaining: 0,
+        reset_at: resetAt,
+      });
+
+      await expect(guard.canActivate(context)).rejects.toMatchObject({
+        status: HttpStatus.TOO_MANY_REQUESTS,
+      });
+      expect(headers['X-RateLimit-Remaining']).toBe('0');
+      expect(Number(headers['Retry-After'])).toBeGreaterThanOrEqual(30);
+      expect(apiKeysService.useKey).not.toHaveBeenCalled();
+    });
+
+    it('limits public routes per IP', async () => {
+      const { guard, context, rateLimitService } = setup({ isPublic: true });
+
+      await guard.canActivate(context);
+      expect(rateLimitService.consume).toHaveBeenCalledWith(
+        'ip:203.0.113.7',
+        100,
+      );
+    });
+
+    it('sets no rate limit headers when limits are unavailable', async () => {
+      const { guard, context, headers } = setup({ apiKey: 'xr_good' });
+
+      await guard.canActivate(context);
+      expect(headers).not.toHaveProperty('X-RateLimit-Limit');
+    });
+  });
+});
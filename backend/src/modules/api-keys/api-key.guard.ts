@@ -0,0 +1,201 @@
+/**
+ * API Key Guard
+ * Global guard requiring a valid `x-api-key` with quota left on every
+ * HTTP route not marked @Public(). SSE routes also accept the key as an
+ * `api_key` query parameter, since browser EventSource cannot set headers. Each authenticated request consumes one
+ * request from the key and is logged to ApiUsage with its real status and
+ * latency once the response is done.
+ *
+ * Also applies rate limits, with X-RateLimit-* headers: per key from its
+ * tier and the route's @RateLimit() category (checked before the quota is
+ * spent), and per IP on public routes.
+ */
+
+import {
+  CanActivate,
+  ExecutionContext,
+  HttpException,
+  HttpStatus,
+  Injectable,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { SSE_METADATA } from '@nestjs/common/constants';
+import { Reflector } from '@nestjs/core';
+import type { Request, Response } from 'express';
+import { ApiKeysService } from './api-keys.service';
+import { IS_PUBLIC_KEY } from './public.decorator';
+import { RATE_LIMIT_CATEGORY_KEY } from './rate-limit.decorator';
+import { RateLimitResult, RateLimitService } from './rate-limit.service';
+import { RateLimitCategory } from '../../common/constants';
+
+export const API_KEY_HEADER = 'x-api-key';
+const QUOTA_REMAINING_HEADER = 'X-Quota-Remaining';
+const AUTHENTICATE_CHALLENGE = `ApiKey header="${API_KEY_HEADER}"`;
+
+/**
+ * "source_chain:source_token>destination_chain:destination_token" for quote
+ * requests (body, or query for the SSE stream), for usage analytics
+ */
+function quotePair(request: Request): string | undefined {
+  const params = {
+    ...(request.query as Record<string, unknown>),
+    ...(request.body as Record<string, unknown> | undefined),
+  };
+  const fields = [
+    params.source_chain,
+    params.source_token,
+    params.destination_chain,
+    params.destination_token,
+  ];
+  if (!fields.every((field): field is string => typeof field === 'string')) {
+    return undefined;
+  }
+
+  const [sourceChain, sourceToken, destinationChain, destinationToken] = fields;
+  return `${sourceChain}:${sourceToken}>${destinationChain}:${destinationToken}`;
+}
+
+@Injectable()
+export class ApiKeyGuard implements CanActivate {
+  constructor(
+    private readonly reflector: Reflector,
+    private readonly apiKeysService: ApiKeysService,
+    private readonly rateLimitService: RateLimitService,
+  ) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    // WebSocket clients are gated by the gateway itself
+    if (context.getType() !== 'http') return true;
+
+    const isPublic = this.reflector.getAllAndOverride<boolean>(IS_PUBLIC_KEY, [
+      context.getHandler(),
+      context.getClass(),
+    ]);
+
+    const http = context.switchToHttp();
+    const request = http.getRequest<Request>();
+    const response = http.getResponse<Response>();
+
+    if (isPublic) {
+      await this.applyRateLimit(
+        response,
+        `ip:${request.ip}`,
+        this.rateLimitService.getIpLimit(),
+      );
+      return true;
+    }
+
+    const key =
+      request.header(API_KEY_HEADER) ?? this.getSseQueryKey(context, request);
+
+    if (!key) {
+      response.setHeader('WWW-Authenticate', AUTHENTICATE_CHALLENGE);
+      throw new UnauthorizedException(`Missing ${API_KEY_HEADER} header`);
+    }
+
+    let validKey: Awaited<ReturnType<ApiKeysService['validateKey']>>;
+    try {
+      validKey = await this.apiKeysService.validateKey(key);
+    } catch (error) {
+      if (error instanceof UnauthorizedException) {
+        response.setHeader('WWW-Authenticate', AUTHENTICATE_CHALLENGE);
+      }
+      throw error;
+    }
+
+    // Before the quota, so throttled requests don't spend it
+    const category =
+      this.reflector.getAllAndOverride<RateLimitCategory>(
+        RATE_LIMIT_CATEGORY_KEY,
+        [context.getHandler(), context.getClass()],
+      ) ?? RateLimitCategory.DEFAULT;
+    await this.applyRateLimit(
+      response,
+      `key:${validKey.id}:${category}`,
+      this.rateLimitService.getKeyLimit(validKey.tier, category),
+    );
+
+    let apiKey: Awaited<ReturnType<ApiKeysService['useKey']>>;
+    try {
+      apiKey = await this.apiKeysService.useKey(validKey);
+    } catch (error) {
+      if (
+        error instanceof HttpException &&
+        error.getStatus() === Number(HttpStatus.TOO_MANY_REQUESTS)
+      ) {
+        response.setHeader(QUOTA_REMAINING_HEADER, '0');
+      }
+      throw error;
+    }
+
+    response.setHeader(
+      QUOTA_REMAINING_HEADER,
+      String(apiKey.available_requests),
+    );
+
+    // 'close' also fires for aborted requests and ended streams (SSE)
+    const startTime = Date.now();
+    const route = (request.route as { path?: string } | undefined)?.path;
+    const endpoint = `${request.method} ${route ?? request.path}`;
+    const pair = quotePair(request);
+    response.once('close', () => {
+      void this.apiKeysService.recordUsage(
+        apiKey.id,
+        endpoint,
+        response.statusCode,
+        Date.now() - startTime,
+        pair,
+      );
+    });
+
+    return true;
+  }
+
+  private getSseQueryKey(
+    context: ExecutionContext,
+    request: Request,
+  ): string | undefined {
+    const isSse = this.reflector.get<boolean>(
+      SSE_METADATA,
+      context.getHandler(),
+    );
+    const key = (request.query as Record<string, unknown>).api_key;
+    return isSse && typeof key === 'string' ? key : undefined;
+  }
+
+  /**
+   * Throws 429 with Retry-After once the client's window is full.
+   * Not limited (and no headers) without Redis.
+   */
+  private async applyRateLimit(
+    response: Response,
+    client: string,
+    limit: number,
+  ): Promise<void> {
+    const result = await this.rateLimitService.consume(client, limit);
+    if (!result) return;
+
+    this.setRateLimitHeaders(response, result);
+    if (!result.allowed) {
+      const retryAfter = Math.max(
+        Math.ceil((result.reset_at - Date.now()) / 1000),
+        1,
+      );
+      response.setHeader('Retry-After', String(retryAfter));
+      throw new HttpException(
+        `Rate limit exceeded, retry in ${retryAfter}s`,
+        HttpStatus.TOO_MANY_REQUESTS,
+      );
+    }
+  }
+
+  private setRateLimitHeaders(response: Response, result: RateLimitResult) {
+    response.setHeader('X-RateLimit-Limit', String(result.limit));
+    response.setHeader('X-RateLimit-Remaining', String(result.remaining));
+    // Unix seconds, as GitHub and most APIs report it
+    response.setHeader(
+      'X-RateLimit-Reset',
+      String(Math.ceil(result.reset_at / 1000)),
+    );
+  }
+}
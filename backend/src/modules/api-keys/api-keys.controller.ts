@@ -1,15 +1,40 @@
-import { Controller, Get, Post, Body, Param, UseGuards } from '@nestjs/common';
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Body,
+  Param,
+  Query,
+  Res,
+  HttpCode,
+  HttpStatus,
+  UseGuards,
+} from '@nestjs/common';
+import type { Response } from 'express';
 import { ApiKeysService } from './api-keys.service';
+import { ApiUsageAnalyticsService } from './api-usage-analytics.service';
+import { Public } from './public.decorator';
+import { WalletAuthGuard } from '../auth/wallet-auth.guard';
+import {
+  CreateApiKeyDto,
+  RenameApiKeyDto,
+  UsageAnalyticsRequestDto,
+} from '../../common/dto';
 
-class CreateApiKeyDto {
-  user_wallet: string;
-  name?: string;
-}
-
+// Keys are managed by their wallet's sign-in session, not by a key
+@Public()
+@UseGuards(WalletAuthGuard)
 @Controller('api-keys')
 export class ApiKeysController {
-  constructor(private readonly apiKeysService: ApiKeysService) {}
+  constructor(
+    private readonly apiKeysService: ApiKeysService,
+    private readonly usageAnalytics: ApiUsageAnalyticsService,
+  ) {}
 
+  /**
+   * The response is the only time the full key is shown
+   */
   @Post()
   async createApiKey(@Body() dto: CreateApiKeyDto) {
     return this.apiKeysService.createApiKey(dto.user_wallet, dto.name);
@@ -20,8 +45,66 @@ export class ApiKeysController {
     return this.apiKeysService.getUserApiKeys(wallet);
   }
 
+  /**
+   * Calls per hour or day, for the dashboard chart
+   */
   @Get(':wallet/stats')
-  async getUsageStats(@Param('wallet') wallet: string) {
-    return this.apiKeysService.getUsageStats(wallet);
+  async getUsageStats(
+    @Param('wallet') wallet: string,
+    @Query() query: UsageAnalyticsRequestDto,
+  ) {
+    const series = await this.usageAnalytics.getTimeSeries(wallet, query);
+    return series.map((bucket) => ({
+      date:
+        query.interval === 'hour'
+          ? bucket.period_start.toISOString()
+          : bucket.period_start.toISOString().split('T')[0],
+      calls: bucket.calls,
+      errors: bucket.errors,
+    }));
+  }
+
+  @Get(':wallet/analytics')
+  async getUsageReport(
+    @Param('wallet') wallet: string,
+    @Query() query: UsageAnalyticsRequestDto,
+  ) {
+    return this.usageAnalytics.getReport(wallet, query);
+  }
+
+  @Get(':wallet/analytics/export')
+  async exportUsage(
+    @Param('wallet') wallet: string,
+    @Query() query: UsageAnalyticsRequestDto,
+    @Res({ passthrough: true }) response: Response,
+  ) {
+    const csv = await this.usageAnalytics.exportCsv(wallet, query);
+    response.setHeader('Content-Type', 'text/csv; charset=utf-8');
+    response.setHeader(
+      'Content-Disposition',
+      `attachment; filename="api-usage-${new Date().toISOString().split('T')[0]}.csv"`,
+    );
+    return csv;
+  }
+
+  @Post(':wallet/:id/rotate')
+  @HttpCode(HttpStatus.OK)
+  async rotateApiKey(@Param('wallet') wallet: string, @Param('id') id: string) {
+    return this.apiKeysService.rotateApiKey(wallet, id);
+  }
+
+  @Post(':wallet/:id/revoke')
+  @HttpCode(HttpStatus.OK)
+  async revokeApiKey(@Param('wallet') wallet: string, @Param('id') id: string) {
+    return this.apiKeysService.revokeApiKey(wallet, id);
+  }
+
+  @Patch(':wallet/:id')
+  async renameApiKey(
+    @Param('wallet') wallet: string,
+    @Param('id') id: string,
+    @Body() dto: RenameApiKeyDto,
+  ) {
+    return this.apiKeysService.renameApiKey(wallet, id, dto.name);
   }
 }
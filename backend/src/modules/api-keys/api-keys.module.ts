@@ -1,10 +1,23 @@
 import { Module } from '@nestjs/common';
+import { APP_GUARD } from '@nestjs/core';
 import { ApiKeysController } from './api-keys.controller';
 import { ApiKeysService } from './api-keys.service';
+import { ApiUsageAnalyticsService } from './api-usage-analytics.service';
+import { ApiKeyGuard } from './api-key.guard';
+import { RateLimitService } from './rate-limit.service';
+import { AppConfigService } from '../../config/app-config.service';
+import { AuthModule } from '../auth/auth.module';
 
 @Module({
+  imports: [AuthModule],
   controllers: [ApiKeysController],
-  providers: [ApiKeysService],
+  providers: [
+    AppConfigService,
+    ApiKeysService,
+    ApiUsageAnalyticsService,
+    RateLimitService,
+    { provide: APP_GUARD, useClass: ApiKeyGuard },
+  ],
   exports: [ApiKeysService],
 })
 export class ApiKeysModule {}
@@ -1,32 +1,78 @@
-import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import {
+  HttpException,
+  HttpStatus,
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnModuleInit,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { Prisma } from '@prisma/client';
 import { PrismaService } from '../../config/prisma.service';
+import { AppConfigService } from '../../config/app-config.service';
+import { toWalletKey } from '../auth/wallet-signature.util';
 import * as crypto from 'crypto';
 
+const KEY_PREFIX_LENGTH = 11; // "sk-" plus 8 hex characters
+
+// Everything except the hash (and legacy plaintext) is safe to return
+const API_KEY_FIELDS = {
+  id: true,
+  user_wallet: true,
+  key_prefix: true,
+  name: true,
+  tier: true,
+  available_requests: true,
+  total_calls: true,
+  is_active: true,
+  last_used_at: true,
+  rotated_at: true,
+  revoked_at: true,
+  renamed_at: true,
+  created_at: true,
+  updated_at: true,
+} satisfies Prisma.ApiKeySelect;
+
+type ApiKeyView = Prisma.ApiKeyGetPayload<{ select: typeof API_KEY_FIELDS }>;
+
 @Injectable()
-export class ApiKeysService {
+export class ApiKeysService implements OnModuleInit {
   private readonly logger = new Logger(ApiKeysService.name);
 
-  constructor(private readonly prisma: PrismaService) {}
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly configService: AppConfigService,
+  ) {}
+
+  async onModuleInit() {
+    if (!this.configService.getSecurityConfig().apiKeySalt) {
+      this.logger.warn(
+        'API_KEY_SALT is not set, API keys are hashed without a salt',
+      );
+    }
+    await this.hashLegacyKeys();
+  }
 
   /**
-   * Generate a new API key for a user
+   * Generate a new API key for a user. The full key is only returned here;
+   * only its hash and prefix are stored.
    */
   async createApiKey(userWallet: string, name: string = 'Default Key') {
-    // Generate a secure random string
-    const randomString = crypto.randomBytes(32).toString('hex');
-    const key = `sk-${randomString}`;
+    const key = this.generateKey();
 
     const apiKey = await this.prisma.apiKey.create({
       data: {
-        user_wallet: userWallet,
-        key,
+        user_wallet: toWalletKey(userWallet),
+        key_hash: this.hashKey(key),
+        key_prefix: key.slice(0, KEY_PREFIX_LENGTH),
         name,
         available_requests: 10000, // Default starting requests
       },
+      select: API_KEY_FIELDS,
     });
 
     this.logger.log(`Created new API key for wallet: ${userWallet}`);
-    return apiKey;
+    return { ...apiKey, key };
   }
 
   /**
@@ -34,79 +80,180 @@ export class ApiKeysService {
    */
   async getUserApiKeys(userWallet: string) {
     return this.prisma.apiKey.findMany({
-      where: { user_wallet: userWallet },
+      where: { user_wallet: toWalletKey(userWallet) },
       orderBy: { created_at: 'desc' },
+      select: API_KEY_FIELDS,
     });
   }
 
   /**
-   * Get usage statistics for a user's API keys (for graphs)
+   * Replace a key's secret, keeping its quota and usage history. The old
+   * key stops working immediately; the new one is returned once.
    */
-  async getUsageStats(userWallet: string) {
-    const keys = await this.getUserApiKeys(userWallet);
-    const keyIds = keys.map((k) => k.id);
-
-    if (keyIds.length === 0) {
-      return [];
-    }
+  async rotateApiKey(userWallet: string, id: string) {
+    const key = this.generateKey();
+    const apiKey = await this.updateActiveKey(userWallet, id, {
+      key: null,
+      key_hash: this.hashKey(key),
+      key_prefix: key.slice(0, KEY_PREFIX_LENGTH),
+      rotated_at: new Date(),
+    });
 
-    // Get usage for the last 7 days grouped by day
-    const sevenDaysAgo = new Date();
-    sevenDaysAgo.setDate(sevenDaysAgo.getDate() - 7);
+    this.logger.log(`Rotated API key ${id} for wallet: ${userWallet}`);
+    return { ...apiKey, key };
+  }
 
-    const usage = await this.prisma.apiUsage.groupBy({
-      by: ['created_at'],
-      where: {
-        api_key_id: { in: keyIds },
-        created_at: { gte: sevenDaysAgo },
-      },
-      _count: {
-        id: true,
-      },
+  /**
+   * Permanently disable a key
+   */
+  async revokeApiKey(userWallet: string, id: string) {
+    const apiKey = await this.updateActiveKey(userWallet, id, {
+      is_active: false,
+      revoked_at: new Date(),
     });
 
-    // Format for Recharts
-    return usage.map((u) => ({
-      date: u.created_at.toISOString().split('T')[0],
-      calls: u._count.id,
-    }));
+    this.logger.log(`Revoked API key ${id} for wallet: ${userWallet}`);
+    return apiKey;
+  }
+
+  async renameApiKey(userWallet: string, id: string, name: string) {
+    return this.updateActiveKey(userWallet, id, {
+      name,
+      renamed_at: new Date(),
+    });
   }
 
   /**
-   * Validate an API key and decrement available requests
+   * Look up an active API key; throws 401 for unknown or inactive keys
    */
-  async validateAndUseKey(key: string, endpoint: string) {
+  async validateKey(key: string) {
     const apiKey = await this.prisma.apiKey.findUnique({
-      where: { key },
+      where: { key_hash: this.hashKey(key) },
+      select: API_KEY_FIELDS,
     });
 
     if (!apiKey || !apiKey.is_active) {
-      throw new NotFoundException('Invalid or inactive API key');
+      throw new UnauthorizedException('Invalid or inactive API key');
     }
 
-    if (apiKey.available_requests <= 0) {
-      throw new Error('API key has no available requests left');
+    return apiKey;
+  }
+
+  /**
+   * Consume one of the key's available requests; throws 429 once the
+   * quota is spent
+   */
+  async useKey(apiKey: ApiKeyView) {
+    // Conditional decrement so concurrent requests cannot overdraw the quota
+    const { count } = await this.prisma.apiKey.updateMany({
+      where: { id: apiKey.id, available_requests: { gt: 0 } },
+      data: {
+        total_calls: { increment: 1 },
+        available_requests: { decrement: 1 },
+        last_used_at: new Date(),
+      },
+    });
+
+    if (count === 0) {
+      throw new HttpException(
+        'API key has no available requests left',
+        HttpStatus.TOO_MANY_REQUESTS,
+      );
     }
 
-    // Update usage in a transaction
-    await this.prisma.$transaction([
-      this.prisma.apiKey.update({
-        where: { id: apiKey.id },
-        data: {
-          total_calls: { increment: 1 },
-          available_requests: { decrement: 1 },
-        },
-      }),
-      this.prisma.apiUsage.create({
+    return {
+      ...apiKey,
+      total_calls: apiKey.total_calls + 1,
+      available_requests: apiKey.available_requests - 1,
+    };
+  }
+
+  /**
+   * Log a served request against its API key
+   */
+  async recordUsage(
+    apiKeyId: string,
+    endpoint: string,
+    status: number,
+    latencyMs: number,
+    pair?: string,
+  ) {
+    try {
+      await this.prisma.apiUsage.create({
         data: {
-          api_key_id: apiKey.id,
+          api_key_id: apiKeyId,
           endpoint,
-          status: 200,
-          latency_ms: Math.floor(Math.random() * 100) + 50, // Mock latency for now
+          status,
+          latency_ms: latencyMs,
+          pair,
         },
-      }),
-    ]);
+      });
+    } catch (error) {
+      this.logger.warn(
+        `Failed to record API usage for ${apiKeyId}: ${(error as Error).message}`,
+      );
+    }
+  }
+
+  /**
+   * Only updates keys that belong to the wallet and are still active
+   */
+  private async updateActiveKey(
+    userWallet: string,
+    id: string,
+    data: Prisma.ApiKeyUpdateInput,
+  ) {
+    const { count } = await this.prisma.apiKey.updateMany({
+      where: { id, user_wallet: toWalletKey(userWallet), is_active: true },
+      data,
+    });
+
+    if (count === 0) {
+      throw new NotFoundException(`Active API key ${id} not found`);
+    }
+
+    return this.prisma.apiKey.findUniqueOrThrow({
+      where: { id },
+      select: API_KEY_FIELDS,
+    });
+  }
+
+  /**
+   * Keys created before hashing was introduced are stored in plaintext;
+   * hash them and clear the plaintext. Their prefix was set by the
+   * migration.
+   */
+  private async hashLegacyKeys(): Promise<void> {
+    try {
+      const legacy = await this.prisma.apiKey.findMany({
+        where: { key: { not: null } },
+        select: { id: true, key: true },
+      });
+
+      for (const { id, key } of legacy) {
+        if (!key) continue;
+        await this.prisma.apiKey.update({
+          where: { id },
+          data: { key: null, key_hash: this.hashKey(key) },
+        });
+      }
+
+      if (legacy.length > 0) {
+        this.logger.log(`Hashed ${legacy.length} legacy API keys`);
+      }
+    } catch (error) {
+      this.logger.warn(
+        `Failed to hash legacy API keys: ${(error as Error).message}`,
+      );
+    }
+  }
+
+  private generateKey(): string {
+    return `sk-${crypto.randomBytes(32).toString('hex')}`;
+  }
 
-    return true;
+  private hashKey(key: string): string {
+    const salt = this.configService.getSecurityConfig().apiKeySalt ?? '';
+    return crypto.createHmac('sha256', salt).update(key).digest('hex');
   }
 }
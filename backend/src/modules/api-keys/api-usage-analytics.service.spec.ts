@@ -0,0 +1,64 @@
+import { ApiUsageAnalyticsService } from './api-usage-analytics.service';
+import { ApiKeysService } from './api-keys.service';
+import { PrismaService } from '../../config/prisma.service';
+
+describe('ApiUsageAnalyticsService', () => {
+  describe('exportCsv', () => {
+    async function exportRow(keyName: string, endpoint = '/quotes') {
+      const prisma = {
+        $queryRaw: jest.fn().mockResolvedValue([
+          {
+            period_start: new Date('2026-10-01T00:00:00Z'),
+            api_key_id: 'key-1',
+            endpoint,
+            calls: 12,
+            errors: 1,
+          },
+        ]),
+      };
+      const apiKeysService = {
+        getUserApiKeys: jest
+          .fn()
+          .mockResolvedValue([
+            { id: 'key-1', key_prefix: 'xr_live_ab', name: keyName },
+          ]),
+      };
+      const service = new ApiUsageAnalyticsService(
+        prisma as unknown as PrismaService,
+        apiKeysService as unknown as ApiKeysService,
+      );
+
+      const csv = await service.exportCsv('0xwallet', {
+        interval: 'day',
+        from: new Date('2026-10-01T00:00:00Z'),
+        to: new Date('2026-10-02T00:00:00Z'),
+      });
+      return csv.slice(csv.indexOf('\n') + 1, -1);
+    }
+
+    it('writes plain values unquoted', async () => {
+      expect(await exportRow('Production')).toBe(
+        '2026-10-01T00:00:00.000Z,key-1,xr_live_ab,Production,/quotes,12,1',
+      );
+    });
+
+    it.each(['=HYPERLINK("x")', '+1', '-1', '@SUM(A1)'])(
+      'prefixes formula-like names (%s) so they are not evaluated',
+      async (name) => {
+        expect((await exportRow(name)).split(',')[3]).toMatch(/^"?'/);
+      },
+    );
+
+    it('neutralises names starting with a tab or carriage return', async () => {
+      expect(await exportRow('\t=1')).toContain(",'\t=1,");
+      expect(await exportRow('\r=1')).toContain(`,"'\r=1",`);
+    });
+
+    it('quotes fields with commas, quotes or line breaks', async () => {
+      expect(await exportRow('a,b')).toContain(',"a,b",');
+      expect(await exportRow('say "hi"')).toContain(',"say ""hi""",');
+      expect(await exportRow('a\nb')).toContain(',"a\nb",');
+      expect(await exportRow('a\rb')).toContain(',"a\rb",');
+    });
+  });
+});
@@ -0,0 +1,326 @@
+/**
+ * API Usage Analytics Service
+ * Reports on a wallet's ApiUsage: calls and errors per hour or day,
+ * error rate and latency percentiles per endpoint, the most requested quote
+ * pairs, and a CSV export for billing reconciliation
+ */
+
+import {
+  BadRequestException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '../../config/prisma.service';
+import { ApiKeysService } from './api-keys.service';
+import { UsageAnalyticsRequestDto } from '../../common/dto';
+import { UsageInterval } from '../../common/constants';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+const ERROR_STATUS = 400; // 4xx and 5xx, including rate limited requests
+const TOP_PAIRS_LIMIT = 10;
+
+const DEFAULT_RANGE_MS: Record<UsageInterval, number> = {
+  hour: DAY_MS,
+  day: 7 * DAY_MS,
+};
+
+// Keeps series and exports bounded
+const MAX_RANGE_MS: Record<UsageInterval, number> = {
+  hour: 7 * DAY_MS,
+  day: 90 * DAY_MS,
+};
+
+interface UsageQuery {
+  keys: { id: string; key_prefix: string; name: string }[];
+  interval: UsageInterval;
+  from: Date;
+  to: Date;
+  endpoint?: string;
+}
+
+interface UsageTotals {
+  calls: number;
+  errors: number;
+  error_rate: number;
+  latency_ms: { p50: number; p95: number };
+}
+
+export interface UsageBucket {
+  period_start: Date;
+  calls: number;
+  errors: number;
+}
+
+export interface EndpointUsage extends UsageTotals {
+  endpoint: string;
+}
+
+export interface UsageReport {
+  interval: UsageInterval;
+  from: Date;
+  to: Date;
+  totals: UsageTotals;
+  series: UsageBucket[];
+  endpoints: EndpointUsage[];
+  top_pairs: { pair: string; calls: number }[];
+}
+
+interface TotalsRow {
+  calls: number;
+  errors: number;
+  p50: number | null;
+  p95: number | null;
+}
+
+@Injectable()
+export class ApiUsageAnalyticsService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly apiKeysService: ApiKeysService,
+  ) {}
+
+  /**
+   * Calls and errors per bucket, zero-filled across the range
+   */
+  async getTimeSeries(
+    userWallet: string,
+    filters: UsageAnalyticsRequestDto,
+  ): Promise<UsageBucket[]> {
+    const query = await this.resolveQuery(userWallet, filters);
+    return this.querySeries(query);
+  }
+
+  async getReport(
+    userWallet: string,
+    filters: UsageAnalyticsRequestDto,
+  ): Promise<UsageReport> {
+    const query = await this.resolveQuery(userWallet, filters);
+    const [totals, series, endpoints, topPairs] = await Promise.all([
+      this.queryTotals(query),
+      this.querySeries(query),
+      this.queryEndpoints(query),
+      this.queryTopPairs(query),
+    ]);
+
+    return {
+      interval: query.interval,
+      from: query.from,
+      to: query.to,
+      totals,
+      series,
+      endpoints,
+      top_pairs: topPairs,
+    };
+  }
+
+  /**
+   * One row per bucket, key and endpoint with call and error counts
+   */
+  async exportCsv(
+    userWallet: string,
+    filters: UsageAnalyticsRequestDto,
+  ): Promise<string> {
+    const query = await this.resolveQuery(userWallet, filters);
+    const rows = query.keys.length
+      ? await this.prisma.$queryRaw<
+          (UsageBucket & { api_key_id: string; endpoint: string })[]
+        >`
+          SELECT date_trunc(${query.interval}, "created_at") AS period_start,
+                 "api_key_id", "endpoint",
+                 count(*)::int AS calls,
+                 (count(*) FILTER (WHERE "status" >= ${ERROR_STATUS}))::int AS errors
+          FROM "api_usages"
+          WHERE ${this.where(query)}
+          GROUP BY 1, 2, 3
+          ORDER BY 1, 2, 3
+        `
+      : [];
+
+    const keys = new Map(query.keys.map((key) => [key.id, key]));
+    const lines = [
+      'period_start,api_key_id,key_prefix,key_name,endpoint,calls,errors',
+      ...rows.map((row) =>
+        [
+          row.period_start.toISOString(),
+          row.api_key_id,
+          keys.get(row.api_key_id)?.key_prefix ?? '',
+          keys.get(row.api_key_id)?.name ?? '',
+          row.endpoint,
+          row.calls,
+          row.errors,
+        ]
+          .map((value) => this.csvValue(value))
+          .join(','),
+      ),
+    ];
+    return `${lines.join('\n')}\n`;
+  }
+
+  /**
+   * Resolve the wallet's keys (or the one requested) and a bucket-aligned
+   * range
+   */
+  private async resolveQuery(
+    userWallet: string,
+    filters: UsageAnalyticsRequestDto,
+  ): Promise<UsageQuery> {
+    const interval = filters.interval ?? 'day';
+    const keys = await this.apiKeysService.getUserApiKeys(userWallet);
+    const selected = filters.api_key_id
+      ? keys.filter((key) => key.id === filters.api_key_id)
+      : keys;
+    if (filters.api_key_id && selected.length === 0) {
+      throw new NotFoundException(`API key ${filters.api_key_id} not found`);
+    }
+
+    const to = filters.to ?? new Date();
+    const from = this.periodStart(
+      filters.from ?? new Date(to.getTime() - DEFAULT_RANGE_MS[interval]),
+      interval,
+    );
+    if (from >= to) {
+      throw new BadRequestException('from must be before to');
+    }
+    if (to.getTime() - from.getTime() > MAX_RANGE_MS[interval]) {
+      throw new BadRequestException(
+        `Range too long for ${interval} buckets (max ${MAX_RANGE_MS[interval] / DAY_MS} days)`,
+      );
+    }
+
+    return {
+      keys: selected,
+      interval,
+      from,
+      to,
+      endpoint: filters.endpoint,
+    };
+  }
+
+  private async querySeries(query: UsageQuery): Promise<UsageBucket[]> {
+    const rows = query.keys.length
+      ? await this.prisma.$queryRaw<UsageBucket[]>`
+          SELECT date_trunc(${query.interval}, "created_at") AS period_start,
+                 count(*)::int AS calls,
+                 (count(*) FILTER (WHERE "status" >= ${ERROR_STATUS}))::int AS errors
+          FROM "api_usages"
+          WHERE ${this.where(query)}
+          GROUP BY 1
+        `
+      : [];
+    const buckets = new Map(
+      rows.map((row) => [row.period_start.getTime(), row]),
+    );
+
+    const step = query.interval === 'hour' ? HOUR_MS : DAY_MS;
+    const series: UsageBucket[] = [];
+    for (let t = query.from.getTime(); t < query.to.getTime(); t += step) {
+      const bucket = buckets.get(t);
+      series.push({
+        period_start: new Date(t),
+        calls: bucket?.calls ?? 0,
+        errors: bucket?.errors ?? 0,
+      });
+    }
+    return series;
+  }
+
+  private async queryTotals(query: UsageQuery): Promise<UsageTotals> {
+    if (!query.keys.length) return this.toTotals();
+
+    const [row] = await this.prisma.$queryRaw<TotalsRow[]>`
+      SELECT count(*)::int AS calls,
+             (count(*) FILTER (WHERE "status" >= ${ERROR_STATUS}))::int AS errors,
+             percentile_cont(0.5) WITHIN GROUP (ORDER BY "latency_ms") AS p50,
+             percentile_cont(0.95) WITHIN GROUP (ORDER BY "latency_ms") AS p95
+      FROM "api_usages"
+      WHERE ${this.where(query)}
+    `;
+    return this.toTotals(row);
+  }
+
+  private async queryEndpoints(query: UsageQuery): Promise<EndpointUsage[]> {
+    if (!query.keys.length) return [];
+
+    const rows = await this.prisma.$queryRaw<
+      (TotalsRow & { endpoint: string })[]
+    >`
+      SELECT "endpoint",
+             count(*)::int AS calls,
+             (count(*) FILTER (WHERE "status" >= ${ERROR_STATUS}))::int AS errors,
+             percentile_cont(0.5) WITHIN GROUP (ORDER BY "latency_ms") AS p50,
+             percentile_cont(0.95) WITHIN GROUP (ORDER BY "latency_ms") AS p95
+      FROM "api_usages"
+      WHERE ${this.where(query)}
+      GROUP BY "endpoint"
+      ORDER BY calls DESC
+    `;
+    return rows.map((row) => ({
+      endpoint: row.endpoint,
+      ...this.toTotals(row),
+    }));
+  }
+
+  private async queryTopPairs(
+    query: UsageQuery,
+  ): Promise<{ pair: string; calls: number }[]> {
+    if (!query.keys.length) return [];
+
+    const groups = await this.prisma.apiUsage.groupBy({
+      by: ['pair'],
+      where: {
+        api_key_id: { in: query.keys.map((key) => key.id) },
+        created_at: { gte: query.from, lt: query.to },
+        endpoint: query.endpoint,
+        pair: { not: null },
+      },
+      _count: { _all: true },
+      orderBy: { _count: { pair: 'desc' } },
+      take: TOP_PAIRS_LIMIT,
+    });
+    return groups.map((group) => ({
+      pair: group.pair ?? '',
+      calls: group._count._all,
+    }));
+  }
+
+  private where(query: UsageQuery): Prisma.Sql {
+    const keyIds = query.keys.map((key) => key.id);
+    return Prisma.sql`"api_key_id" IN (${Prisma.join(keyIds)})
+      AND "created_at" >= ${query.from}
+      AND "created_at" < ${query.to}
+      ${query.endpoint ? Prisma.sql`AND "endpoint" = ${query.endpoint}` : Prisma.empty}`;
+  }
+
+  private toTotals(row?: TotalsRow): UsageTotals {
+    const calls = row?.calls ?? 0;
+    const errors = row?.errors ?? 0;
+    return {
+      calls,
+      errors,
+      error_rate: calls ? errors / calls : 0,
+      latency_ms: {
+        p50: Math.round(row?.p50 ?? 0),
+        p95: Math.round(row?.p95 ?? 0),
+      },
+    };
+  }
+
+  private periodStart(date: Date, interval: UsageInterval): Date {
+    const start = new Date(date);
+    start.setUTCMinutes(0, 0, 0);
+    if (interval === 'day') start.setUTCHours(0);
+    return start;
+  }
+
+  /**
+   * Quote fields with commas, quotes or line breaks, and keep spreadsheet
+   * apps from evaluating user-supplied names as formulas
+   */
+  private csvValue(value: string | number): string {
+    let text = String(value);
+    if (/^[=+\-@\t\r]/.test(text)) text = `'${text}`;
+    return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  }
+}
@@ -0,0 +1,10 @@
+/**
+ * Public Decorator
+ * Opts a controller or route out of API key authentication
+ */
+
+import { SetMetadata } from '@nestjs/common';
+
+export const IS_PUBLIC_KEY = 'isPublic';
+
+export const Public = () => SetMetadata(IS_PUBLIC_KEY, true);
@@ -0,0 +1,13 @@
+/**
+ * Rate Limit Decorator
+ * Puts a controller or route in an endpoint category, which sets its
+ * per-API-key limit (see RATE_LIMIT_CATEGORY_SHARE)
+ */
+
+import { SetMetadata } from '@nestjs/common';
+import { RateLimitCategory } from '../../common/constants';
+
+export const RATE_LIMIT_CATEGORY_KEY = 'rateLimitCategory';
+
+export const RateLimit = (category: RateLimitCategory) =>
+  SetMetadata(RATE_LIMIT_CATEGORY_KEY, category);
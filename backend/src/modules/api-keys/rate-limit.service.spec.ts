@@ -0,0 +1,101 @@
+import { RateLimitService } from './rate-limit.service';
+import { RedisService } from '../../config/redis.service';
+import { AppConfigService } from '../../config/app-config.service';
+import { ApiKeyTier, RateLimitCategory } from '../../common/constants';
+
+const RATE_LIMITS = {
+  ttl: 60,
+  max: 100,
+  freeTier: 10,
+  proTier: 100,
+  enterpriseTier: 1000,
+};
+
+function createService(redis: { eval: jest.Mock } | null = null) {
+  const redisService = { getClient: () => redis };
+  const configService = { getRateLimits: () => RATE_LIMITS };
+  return new RateLimitService(
+    redisService as unknown as RedisService,
+    configService as unknown as AppConfigService,
+  );
+}
+
+describe('RateLimitService', () => {
+  describe('getKeyLimit', () => {
+    const service = createService();
+
+    it('uses the tier limit for default and quote endpoints', () => {
+      expect(
+        service.getKeyLimit(ApiKeyTier.PRO, RateLimitCategory.DEFAULT),
+      ).toBe(100);
+      expect(
+        service.getKeyLimit(ApiKeyTier.ENTERPRISE, RateLimitCategory.QUOTE),
+      ).toBe(1000);
+    });
+
+    it('gives execution and AI endpoints a share of the tier limit', () => {
+      expect(
+        service.getKeyLimit(ApiKeyTier.PRO, RateLimitCategory.EXECUTION),
+      ).toBe(50);
+      expect(service.getKeyLimit(ApiKeyTier.PRO, RateLimitCategory.AI)).toBe(
+        20,
+      );
+    });
+
+    it('never rounds a limit down to zero', () => {
+      expect(
+        service.getKeyLimit(ApiKeyTier.FREE, RateLimitCategory.AI),
+      ).toBeGreaterThanOrEqual(1);
+    });
+
+    it('treats unknown tiers as free', () => {
+      expect(service.getKeyLimit('legacy', RateLimitCategory.DEFAULT)).toBe(10);
+    });
+  });
+
+  describe('consume', () => {
+    it('maps the window script result', async () => {
+      const redis = {
+        eval: jest.fn().mockResolvedValue([1, 4, 1700000060000]),
+      };
+
+      await expect(
+        createService(redis).consume('ip:1.2.3.4', 10),
+      ).resolves.toEqual({
+        allowed: true,
+        limit: 10,
+        remaining: 6,
+        reset_at: 1700000060000,
+      });
+      expect(redis.eval).toHaveBeenCalledWith(
+        expect.any(String),
+        1,
+        'ratelimit:client:ip:1.2.3.4',
+        10,
+        60000,
+        expect.any(String),
+      );
+    });
+
+    it('reports a full window as not allowed', async () => {
+      const redis = {
+        eval: jest.fn().mockResolvedValue([0, 10, 1700000060000]),
+      };
+
+      await expect(
+        createService(redis).consume('key:k:default', 10),
+      ).resolves.toMatchObject({ allowed: false, remaining: 0 });
+    });
+
+    it('does not limit without Redis or when the script fails', async () => {
+      await expect(
+        createService().consume('ip:1.2.3.4', 10),
+      ).resolves.toBeNull();
+
+      const redis = { eval: jest.fn().mockRejectedValue(new Error('down')) };
+      await expect(
+        createService(redis).consume('ip:1.2.3.4', 10),
+      ).resolves.toBeNull();
+    });
+  });
+});
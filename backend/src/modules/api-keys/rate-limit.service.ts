@@ -0,0 +1,120 @@
+/**
+ * Rate Limit Service
+ * Sliding-window request limits in Redis, shared by all instances: per API
+ * key and endpoint category from the key's tier, and per IP for requests
+ * without a key
+ */
+
+import { Injectable, Logger } from '@nestjs/common';
+import * as crypto from 'crypto';
+import { RedisService } from '../../config/redis.service';
+import { AppConfigService } from '../../config/app-config.service';
+import {
+  ApiKeyTier,
+  RATE_LIMIT_CATEGORY_SHARE,
+  RateLimitCategory,
+} from '../../common/constants';
+
+const WINDOW_PREFIX = 'ratelimit:client:';
+
+// Sliding window log: one sorted set member per request, scored by time.
+// Adds the request only when under the limit.
+// KEYS: window key. ARGV: limit, window ms, request id.
+// Returns { allowed (0/1), requests in window, ms timestamp the oldest expires }.
+const SLIDING_WINDOW_SCRIPT = `
+local time = redis.call('TIME')
+local now = tonumber(time[1]) * 1000 + math.floor(tonumber(time[2]) / 1000)
+local limit = tonumber(ARGV[1])
+local window = tonumber(ARGV[2])
+redis.call('ZREMRANGEBYSCORE', KEYS[1], 0, now - window)
+local count = redis.call('ZCARD', KEYS[1])
+local allowed = 0
+if count < limit then
+  redis.call('ZADD', KEYS[1], now, ARGV[3])
+  count = count + 1
+  allowed = 1
+end
+redis.call('PEXPIRE', KEYS[1], window)
+local oldest = redis.call('ZRANGE', KEYS[1], 0, 0, 'WITHSCORES')
+local reset = now + window
+if oldest[2] then reset = tonumber(oldest[2]) + window end
+return { allowed, count, reset }
+`;
+
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  reset_at: number; // epoch ms when the oldest request leaves the window
+}
+
+@Injectable()
+export class RateLimitService {
+  private readonly logger = new Logger(RateLimitService.name);
+
+  constructor(
+    private readonly redisService: RedisService,
+    private readonly configService: AppConfigService,
+  ) {}
+
+  /**
+   * Limit for an API key of this tier on this category of endpoints
+   */
+  getKeyLimit(tier: string, category: RateLimitCategory): number {
+    const limits = this.configService.getRateLimits();
+    const tierLimits: Record<string, number> = {
+      [ApiKeyTier.FREE]: limits.freeTier,
+      [ApiKeyTier.PRO]: limits.proTier,
+      [ApiKeyTier.ENTERPRISE]: limits.enterpriseTier,
+    };
+    const tierLimit = tierLimits[tier] ?? limits.freeTier; // Unknown: free
+
+    return Math.max(
+      1,
+      Math.floor(tierLimit * RATE_LIMIT_CATEGORY_SHARE[category]),
+    );
+  }
+
+  /**
+   * Limit for requests without an API key, per IP
+   */
+  getIpLimit(): number {
+    return this.configService.getRateLimits().max;
+  }
+
+  /**
+   * Count a request against the client's window. Returns null (not limited)
+   * when Redis is unavailable.
+   */
+  async consume(
+    client: string,
+    limit: number,
+  ): Promise<RateLimitResult | null> {
+    const redis = this.redisService.getClient();
+    if (!redis) return null;
+
+    const windowMs = this.configService.getRateLimits().ttl * 1000;
+    try {
+      const [allowed, count, resetAt] = (await redis.eval(
+        SLIDING_WINDOW_SCRIPT,
+        1,
+        `${WINDOW_PREFIX}${client}`,
+        limit,
+        windowMs,
+        crypto.randomUUID(),
+      )) as [number, number, number];
+
+      return {
+        allowed: allowed === 1,
+        limit,
+        remaining: Math.max(limit - count, 0),
+        reset_at: resetAt,
+      };
+    } catch (error) {
+      this.logger.warn(
+        `Rate limit check failed for ${client}, allowing request: ${(error as Error).message}`,
+      );
+      return null;
+    }
+  }
+}
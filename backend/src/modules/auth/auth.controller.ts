@@ -0,0 +1,55 @@
+/**
+ * Auth Controller
+ * Wallet sign-in (SIWE / Sign In With Solana):
+ * 1. POST /auth/nonce   - get a message to sign
+ * 2. POST /auth/verify  - send it back signed, receive a JWT
+ * 3. Call account endpoints with `Authorization: Bearer <jwt>`
+ */
+
+import {
+  Body,
+  Controller,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Post,
+  Req,
+  UseGuards,
+} from '@nestjs/common';
+import { AuthService } from './auth.service';
+import { WalletAuthGuard } from './wallet-auth.guard';
+import type { WalletRequest } from './wallet-auth.guard';
+import { Public } from '../api-keys/public.decorator';
+import {
+  WalletChallengeRequestDto,
+  WalletSignInRequestDto,
+} from '../../common/dto';
+
+// Wallet sessions stand in for API keys here
+@Public()
+@Controller('auth')
+export class AuthController {
+  constructor(private readonly authService: AuthService) {}
+
+  @Post('nonce')
+  @HttpCode(HttpStatus.OK)
+  async createChallenge(@Body() dto: WalletChallengeRequestDto) {
+    return this.authService.createChallenge(
+      dto.address,
+      dto.chain_type,
+      dto.chain_id,
+    );
+  }
+
+  @Post('verify')
+  @HttpCode(HttpStatus.OK)
+  async signIn(@Body() dto: WalletSignInRequestDto) {
+    return this.authService.signIn(dto.message, dto.signature);
+  }
+
+  @Get('session')
+  @UseGuards(WalletAuthGuard)
+  getSession(@Req() request: WalletRequest) {
+    return request.wallet;
+  }
+}
@@ -0,0 +1,42 @@
+/**
+ * Auth Module
+ * Wallet signature sign-in and the guard for wallet-owned resources
+ */
+
+import { Logger, Module } from '@nestjs/common';
+import { JwtModule, JwtSignOptions } from '@nestjs/jwt';
+import * as crypto from 'crypto';
+import { AuthController } from './auth.controller';
+import { AuthService } from './auth.service';
+import { WalletAuthGuard } from './wallet-auth.guard';
+import { AppConfigService } from '../../config/app-config.service';
+
+@Module({
+  imports: [
+    JwtModule.registerAsync({
+      extraProviders: [AppConfigService],
+      inject: [AppConfigService],
+      useFactory: (configService: AppConfigService) => {
+        const { jwtSecret, jwtExpiration } = configService.getSecurityConfig();
+        if (!jwtSecret) {
+          // Required in production (see env validation)
+          new Logger(AuthModule.name).warn(
+            'JWT_SECRET is not set, wallet sessions will not survive a restart',
+          );
+        }
+
+        return {
+          secret: jwtSecret ?? crypto.randomBytes(32).toString('hex'),
+          signOptions: {
+            // e.g. 7d or 12h (vercel/ms format)
+            expiresIn: jwtExpiration as JwtSignOptions['expiresIn'],
+          },
+        };
+      },
+    }),
+  ],
+  controllers: [AuthController],
+  providers: [AppConfigService, AuthService, WalletAuthGuard],
+  exports: [AuthService, WalletAuthGuard],
+})
+export class AuthModule {}
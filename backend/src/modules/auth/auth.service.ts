@@ -0,0 +1,193 @@
+/**
+ * Auth Service
+ * Wallet sign-in: issues single-use nonce challenges, verifies the signed
+ * message and exchanges it for a JWT identifying the wallet
+ */
+
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { JwtService } from '@nestjs/jwt';
+import * as crypto from 'crypto';
+import { RedisService } from '../../config/redis.service';
+import { AppConfigService } from '../../config/app-config.service';
+import { ChainType } from '../../common/constants';
+import {
+  buildSignInMessage,
+  normalizeWallet,
+  parseSignInNonce,
+  verifyWalletSignature,
+} from './wallet-signature.util';
+
+const NONCE_TTL_SECONDS = 300;
+const NONCE_KEY_PREFIX = 'auth:nonce:';
+const DEFAULT_EVM_CHAIN_ID = 1;
+const SOLANA_CHAIN_ID = 'mainnet';
+
+interface SignInChallenge {
+  address: string;
+  chain_type: ChainType;
+  message: string;
+}
+
+export interface WalletSession {
+  wallet: string;
+  chain_type: ChainType;
+}
+
+interface WalletTokenPayload {
+  sub: string;
+  chain_type: ChainType;
+}
+
+@Injectable()
+export class AuthService {
+  private readonly logger = new Logger(AuthService.name);
+  // Used only while Redis is unavailable (single instance)
+  private readonly localChallenges = new Map<
+    string,
+    { challenge: SignInChallenge; expires_at: number }
+  >();
+
+  constructor(
+    private readonly jwtService: JwtService,
+    private readonly redisService: RedisService,
+    private readonly configService: AppConfigService,
+  ) {}
+
+  /**
+   * Create a sign-in message for the wallet to sign. Each nonce can be
+   * used once, within NONCE_TTL_SECONDS.
+   */
+  async createChallenge(
+    address: string,
+    chainType: ChainType,
+    chainId?: number,
+  ) {
+    const wallet = normalizeWallet(address, chainType);
+    if (!wallet) {
+      throw new BadRequestException(`Invalid ${chainType} address: ${address}`);
+    }
+
+    const { authDomain, authUri } = this.configService.getSecurityConfig();
+    const nonce = crypto.randomBytes(16).toString('hex');
+    const issuedAt = new Date();
+    const expiresAt = new Date(issuedAt.getTime() + NONCE_TTL_SECONDS * 1000);
+    const message = buildSignInMessage({
+      domain: authDomain,
+      uri: authUri,
+      address: wallet,
+      chainType,
+      chainId:
+        chainType === ChainType.SOLANA
+          ? SOLANA_CHAIN_ID
+          : (chainId ?? DEFAULT_EVM_CHAIN_ID),
+      nonce,
+      issuedAt,
+      expiresAt,
+    });
+
+    await this.saveChallenge(nonce, {
+      address: wallet,
+      chain_type: chainType,
+      message,
+    });
+
+    return { nonce, message, expires_at: expiresAt };
+  }
+
+  /**
+   * Verify a signed challenge and issue an access token for its wallet
+   */
+  async signIn(message: string, signature: string) {
+    const nonce = parseSignInNonce(message);
+    const challenge = nonce ? await this.consumeChallenge(nonce) : null;
+
+    // The stored message pins the address, domain and expiry
+    if (!challenge || challenge.message !== message) {
+      throw new UnauthorizedException(
+        'Sign-in challenge is unknown, expired or already used',
+      );
+    }
+
+    if (
+      !verifyWalletSignature(
+        challenge.chain_type,
+        challenge.address,
+        message,
+        signature,
+      )
+    ) {
+      throw new UnauthorizedException('Invalid wallet signature');
+    }
+
+    const payload: WalletTokenPayload = {
+      sub: challenge.address,
+      chain_type: challenge.chain_type,
+    };
+    const accessToken = await this.jwtService.signAsync(payload);
+
+    this.logger.log(`Wallet signed in: ${challenge.address}`);
+    return {
+      access_token: accessToken,
+      token_type: 'Bearer',
+      wallet: challenge.address,
+      chain_type: challenge.chain_type,
+    };
+  }
+
+  /**
+   * Resolve an access token to its wallet; throws 401 when invalid or expired
+   */
+  async verifyToken(token: string): Promise<WalletSession> {
+    try {
+      const payload =
+        await this.jwtService.verifyAsync<WalletTokenPayload>(token);
+      return { wallet: payload.sub, chain_type: payload.chain_type };
+    } catch {
+      throw new UnauthorizedException('Invalid or expired access token');
+    }
+  }
+
+  private async saveChallenge(
+    nonce: string,
+    challenge: SignInChallenge,
+  ): Promise<void> {
+    if (!this.redisService.getClient()) {
+      for (const [key, entry] of this.localChallenges) {
+        if (entry.expires_at <= Date.now()) this.localChallenges.delete(key);
+      }
+      this.localChallenges.set(nonce, {
+        challenge,
+        expires_at: Date.now() + NONCE_TTL_SECONDS * 1000,
+      });
+      return;
+    }
+
+    await this.redisService.setJson(
+      `${NONCE_KEY_PREFIX}${nonce}`,
+      challenge,
+      NONCE_TTL_SECONDS,
+    );
+  }
+
+  private async consumeChallenge(
+    nonce: string,
+  ): Promise<SignInChallenge | null> {
+    const local = this.localChallenges.get(nonce);
+    if (local) {
+      this.localChallenges.delete(nonce);
+      return local.expires_at > Date.now() ? local.challenge : null;
+    }
+
+    const client = this.redisService.getClient();
+    if (!client) return null;
+
+    // GETDEL so a nonce cannot be replayed by concurrent requests
+    const value = await client.getdel(`${NONCE_KEY_PREFIX}${nonce}`);
+    return value ? (JSON.parse(value) as SignInChallenge) : null;
+  }
+}
@@ -0,0 +1,50 @@
+/**
+ * Wallet Auth Guard
+ * Requires a wallet sign-in token (`Authorization: Bearer <jwt>`) and
+ * enforces ownership: a `:wallet` route param or `user_wallet` body field
+ * must be the signed-in wallet. Use with @UseGuards on account endpoints.
+ */
+
+import {
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  Injectable,
+  UnauthorizedException,
+} from '@nestjs/common';
+import type { Request, Response } from 'express';
+import { AuthService, WalletSession } from './auth.service';
+import { isSameWallet } from './wallet-signature.util';
+
+export interface WalletRequest extends Request {
+  wallet?: WalletSession;
+}
+
+@Injectable()
+export class WalletAuthGuard implements CanActivate {
+  constructor(private readonly authService: AuthService) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const http = context.switchToHttp();
+    const request = http.getRequest<WalletRequest>();
+    const [scheme, token] = (request.header('authorization') ?? '').split(' ');
+
+    if (scheme !== 'Bearer' || !token) {
+      http.getResponse<Response>().setHeader('WWW-Authenticate', 'Bearer');
+      throw new UnauthorizedException('Missing wallet access token');
+    }
+
+    const session = await this.authService.verifyToken(token);
+    const body = request.body as { user_wallet?: unknown } | undefined;
+    const claimed = [request.params.wallet, body?.user_wallet].filter(
+      (wallet): wallet is string => typeof wallet === 'string',
+    );
+
+    if (claimed.some((wallet) => !isSameWallet(wallet, session.wallet))) {
+      throw new ForbiddenException('Wallet does not belong to this session');
+    }
+
+    request.wallet = session;
+    return true;
+  }
+}
@@ -0,0 +1,168 @@
+import { generateKeyPairSync, sign } from 'crypto';
+import { Wallet, encodeBase58 } from 'ethers';
+import { PublicKey } from '@solana/web3.js';
+import { ChainType } from '../../common/constants';
+import {
+  buildSignInMessage,
+  isSameWallet,
+  parseSignInNonce,
+  toWalletKey,
+  verifyWalletSignature,
+} from './wallet-signature.util';
+
+const evmWallet = new Wallet(
+  '0x0123456789abcdef0123456789abcdef0123456789abcdef0123456789abcdef',
+);
+
+function solanaKeyPair() {
+  const { publicKey, privateKey } = generateKeyPairSync('ed25519');
+  const { x } = publicKey.export({ format: 'jwk' });
+  return {
+    address: new PublicKey(Buffer.from(x!, 'base64url')).toBase58(),
+    sign: (message: string) =>
+      encodeBase58(sign(null, Buffer.from(message), privateKey)),
+  };
+}
+
+function message(address: string, chainType: ChainType): string {
+  return buildSignInMessage({
+    domain: 'app.example.com',
+    uri: 'https://app.example.com',
+    address,
+    chainType,
+    chainId: 1,
+    nonce: 'a1B2c3D4e5',
+    issuedAt: new Date('2026-01-01T00:00:00Z'),
+    expiresAt: new Date('2026-01-01T00:10:00Z'),
+  });
+}
+
+describe('wallet signature utils', () => {
+  describe('parseSignInNonce', () => {
+    it('reads the nonce from a sign-in message', () => {
+      expect(parseSignInNonce(message(evmWallet.address, ChainType.EVM))).toBe(
+        'a1B2c3D4e5',
+      );
+    });
+
+    it('returns null when there is no nonce line', () => {
+      expect(parseSignInNonce('Sign in\nNonce: \nVersion: 1')).toBeNull();
+      expect(parseSignInNonce('Nonce: abc-123')).toBeNull();
+    });
+  });
+
+  describe('verifyWalletSignature', () => {
+    it('accepts an EVM personal_sign signature from the address', async () => {
+      const text = message(evmWallet.address, ChainType.EVM);
+      const signature = await evmWallet.signMessage(text);
+
+      expect(
+        verifyWalletSignature(
+          ChainType.EVM,
+          evmWallet.address,
+          text,
+          signature,
+        ),
+      ).toBe(true);
+      expect(
+        verifyWalletSignature(
+          ChainType.EVM,
+          evmWallet.address.toLowerCase(),
+          text,
+          signature,
+        ),
+      ).toBe(true);
+    });
+
+    it('rejects an EVM signature over another message or from another wallet', async () => {
+      const text = message(evmWallet.address, ChainType.EVM);
+      const signature = await evmWallet.signMessage(text);
+      const other = Wallet.createRandom();
+
+      expect(
+        verifyWalletSignature(
+          ChainType.EVM,
+          evmWallet.address,
+          `${text}\n`,
+          signature,
+        ),
+      ).toBe(false);
+      expect(
+        verifyWalletSignature(ChainType.EVM, other.address, text, signature),
+      ).toBe(false);
+    });
+
+    it('accepts a Solana ed25519 signature from the address', () => {
+      const keyPair = solanaKeyPair();
+      const text = message(keyPair.address, ChainType.SOLANA);
+
+      expect(
+        verifyWalletSignature(
+          ChainType.SOLANA,
+          keyPair.address,
+          text,
+          keyPair.sign(text),
+        ),
+      ).toBe(true);
+    });
+
+    it('rejects a Solana signature from another wallet', () => {
+      const keyPair = solanaKeyPair();
+      const other = solanaKeyPair();
+      const text = message(keyPair.address, ChainType.SOLANA);
+
+      expect(
+        verifyWalletSignature(
+          ChainType.SOLANA,
+          keyPair.address,
+          text,
+          other.sign(text),
+        ),
+      ).toBe(false);
+    });
+
+    it('returns false for malformed signatures instead of throwing', () => {
+      expect(
+        verifyWalletSignature(ChainType.EVM, evmWallet.address, 'hi', '0x1234'),
+      ).toBe(false);
+      expect(
+        verifyWalletSignature(
+          ChainType.SOLANA,
+          solanaKeyPair().address,
+          'hi',
+          'not-base58!',
+        ),
+      ).toBe(false);
+    });
+  });
+
+  describe('toWalletKey', () => {
+    it('lowercases EVM addresses whatever their checksum casing', () => {
+      expect(toWalletKey(evmWallet.address)).toBe(
+        evmWallet.address.toLowerCase(),
+      );
+      expect(toWalletKey(evmWallet.address.toLowerCase())).toBe(
+        evmWallet.address.toLowerCase(),
+      );
+    });
+
+    it('keeps Solana addresses as they are', () => {
+      const { address } = solanaKeyPair();
+      expect(toWalletKey(address)).toBe(address);
+    });
+  });
+
+  describe('isSameWallet', () => {
+    it('compares EVM addresses case-insensitively', () => {
+      expect(
+        isSameWallet(evmWallet.address, evmWallet.address.toLowerCase()),
+      ).toBe(true);
+    });
+
+    it('compares Solana addresses exactly', () => {
+      const { address } = solanaKeyPair();
+      expect(isSameWallet(address, address)).toBe(true);
+      expect(isSameWallet(address, address.toLowerCase())).toBe(false);
+    });
+  });
+});
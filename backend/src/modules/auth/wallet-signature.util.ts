@@ -0,0 +1,122 @@
+/**
+ * Wallet Signature Utilities
+ * Sign-in message format (EIP-4361 for EVM, its Sign In With Solana
+ * counterpart for Solana) and signature verification for both chain types
+ */
+
+import { createPublicKey, verify } from 'crypto';
+import {
+  decodeBase58,
+  getAddress,
+  getBytes,
+  isAddress,
+  toBeArray,
+  verifyMessage,
+  zeroPadValue,
+} from 'ethers';
+import { PublicKey } from '@solana/web3.js';
+import { ChainType } from '../../common/constants';
+
+const SOLANA_SIGNATURE_BYTES = 64;
+
+export interface SignInMessageFields {
+  domain: string;
+  uri: string;
+  address: string;
+  chainType: ChainType;
+  chainId: string | number;
+  nonce: string;
+  issuedAt: Date;
+  expiresAt: Date;
+}
+
+export function buildSignInMessage(fields: SignInMessageFields): string {
+  const account = fields.chainType === ChainType.SOLANA ? 'Solana' : 'Ethereum';
+
+  return [
+    `${fields.domain} wants you to sign in with your ${account} account:`,
+    fields.address,
+    '',
+    'Sign in to XROH to manage your API keys and routing preferences.',
+    '',
+    `URI: ${fields.uri}`,
+    'Version: 1',
+    `Chain ID: ${fields.chainId}`,
+    `Nonce: ${fields.nonce}`,
+    `Issued At: ${fields.issuedAt.toISOString()}`,
+    `Expiration Time: ${fields.expiresAt.toISOString()}`,
+  ].join('\n');
+}
+
+export function parseSignInNonce(message: string): string | null {
+  return /^Nonce: ([A-Za-z0-9]+)$/m.exec(message)?.[1] ?? null;
+}
+
+/**
+ * Canonical form of a wallet address (checksummed for EVM), or null when
+ * it is not a valid address for the chain type
+ */
+export function normalizeWallet(
+  address: string,
+  chainType: ChainType,
+): string | null {
+  if (chainType === ChainType.EVM) {
+    return isAddress(address) ? getAddress(address) : null;
+  }
+
+  try {
+    return new PublicKey(address).toBase58();
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Form account data (API keys, preferences) is stored and looked up by:
+ * lowercase for EVM, where case only carries the checksum; Solana as is
+ */
+export function toWalletKey(address: string): string {
+  return isAddress(address) ? address.toLowerCase() : address;
+}
+
+/**
+ * EVM addresses are compared case-insensitively, Solana ones exactly
+ */
+export function isSameWallet(a: string, b: string): boolean {
+  return isAddress(a) && isAddress(b)
+    ? a.toLowerCase() === b.toLowerCase()
+    : a === b;
+}
+
+/**
+ * EVM: personal_sign (EOA only, no EIP-1271 contract wallets).
+ * Solana: base58 ed25519 signature of the UTF-8 message.
+ */
+export function verifyWalletSignature(
+  chainType: ChainType,
+  address: string,
+  message: string,
+  signature: string,
+): boolean {
+  try {
+    if (chainType === ChainType.EVM) {
+      return isSameWallet(verifyMessage(message, signature), address);
+    }
+
+    const publicKey = createPublicKey({
+      key: {
+        kty: 'OKP',
+        crv: 'Ed25519',
+        x: Buffer.from(new PublicKey(address).toBytes()).toString('base64url'),
+      },
+      format: 'jwk',
+    });
+    // Leading zero bytes are lost in the bigint round trip; pad them back
+    const signatureBytes = getBytes(
+      zeroPadValue(toBeArray(decodeBase58(signature)), SOLANA_SIGNATURE_BYTES),
+    );
+    return verify(null, Buffer.from(message), publicKey, signatureBytes);
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,227 @@
+/**
+ * Chain RPC Service
+ * JSON-RPC and Solana connections for the configured chain endpoints
+ */
+
+import { Injectable } from '@nestjs/common';
+import axios from 'axios';
+import { Connection } from '@solana/web3.js';
+import { toQuantity } from 'ethers';
+import { AppConfigService } from '../../config/app-config.service';
+import { Chain, CHAIN_CONFIRMATIONS } from '../../common/constants';
+import { TransactionConfirmation } from '../../common/interfaces';
+
+const RPC_TIMEOUT_MS = 10000;
+
+export interface JsonRpcResponse<T> {
+  result?: T;
+  error?: { code: number; message: string };
+}
+
+interface EvmReceipt {
+  blockNumber: string;
+  status: string;
+  gasUsed: string;
+  effectiveGasPrice?: string;
+}
+
+export interface EvmTransaction {
+  hash: string;
+  from: string;
+  to: string | null;
+  input: string;
+  value: string;
+  nonce: string;
+}
+
+@Injectable()
+export class ChainRpcService {
+  private readonly solanaConnections = new Map<string, Connection>();
+
+  constructor(private readonly configService: AppConfigService) {}
+
+  getRpcUrl(chain: string): string | undefined {
+    const endpoints = this.configService.getRpcEndpoints();
+    if (chain === 'solana') return endpoints.solana.mainnet;
+    return endpoints[chain as Exclude<keyof typeof endpoints, 'solana'>];
+  }
+
+  async call<T>(
+    rpcUrl: string,
+    method: string,
+    params: unknown[],
+  ): Promise<JsonRpcResponse<T>> {
+    const response = await axios.post<JsonRpcResponse<T>>(
+      rpcUrl,
+      { jsonrpc: '2.0', id: 1, method, params },
+      { timeout: RPC_TIMEOUT_MS },
+    );
+    return response.data;
+  }
+
+  getSolanaConnection(rpcUrl?: string): Connection {
+    const url = rpcUrl ?? this.getRpcUrl('solana')!;
+    let connection = this.solanaConnections.get(url);
+    if (!connection) {
+      connection = new Connection(url, 'confirmed');
+      this.solanaConnections.set(url, connection);
+    }
+    return connection;
+  }
+
+  /**
+   * Receipt-based confirmation for an EVM transaction, or null while it
+   * has not been mined. gas_used * effective_gas_price is the fee paid.
+   */
+  async getEvmConfirmation(
+    chain: string,
+    transactionHash: string,
+  ): Promise<TransactionConfirmation | null> {
+    const rpcUrl = this.requireRpcUrl(chain);
+    const receipt = await this.call<EvmReceipt | null>(
+      rpcUrl,
+      'eth_getTransactionReceipt',
+      [transactionHash],
+    );
+    if (receipt.error) throw new Error(receipt.error.message);
+    if (!receipt.result) return null;
+
+    const head = await this.call<string>(rpcUrl, 'eth_blockNumber', []);
+    if (head.error || !head.result) {
+      throw new Error(head.error?.message ?? 'eth_blockNumber failed');
+    }
+
+    const blockNumber = Number(BigInt(receipt.result.blockNumber));
+    return {
+      transaction_hash: transactionHash,
+      block_number: blockNumber,
+      confirmations: Number(BigInt(head.result)) - blockNumber + 1,
+      status: receipt.result.status === '0x1' ? 'success' : 'failed',
+      gas_used: BigInt(receipt.result.gasUsed).toString(),
+      effective_gas_price: receipt.result.effectiveGasPrice
+        ? BigInt(receipt.result.effectiveGasPrice).toString()
+        : undefined,
+    };
+  }
+
+  /**
+   * Mined nonce of an account — used to spot a transaction that was
+   * replaced by another one with the same nonce
+   */
+  async getEvmTransactionCount(
+    chain: string,
+    address: string,
+  ): Promise<number> {
+    const response = await this.call<string>(
+      this.requireRpcUrl(chain),
+      'eth_getTransactionCount',
+      [address, 'latest'],
+    );
+    if (response.error || !response.result) {
+      throw new Error(
+        response.error?.message ?? 'eth_getTransactionCount failed',
+      );
+    }
+    return Number(BigInt(response.result));
+  }
+
+  /**
+   * The transaction that used `nonce` for `sender`, found by binary
+   * searching the last `maxBlocks` blocks for the block where the account
+   * nonce moved past it. Null when it was mined before that window.
+   */
+  async findEvmTransactionByNonce(
+    chain: string,
+    sender: string,
+    nonce: number,
+    maxBlocks: number,
+  ): Promise<EvmTransaction | null> {
+    const rpcUrl = this.requireRpcUrl(chain);
+    const head = await this.call<string>(rpcUrl, 'eth_blockNumber', []);
+    if (head.error || !head.result) {
+      throw new Error(head.error?.message ?? 'eth_blockNumber failed');
+    }
+
+    const nonceAt = async (block: number): Promise<number> => {
+      const response = await this.call<string>(
+        rpcUrl,
+        'eth_getTransactionCount',
+        [sender, toQuantity(block)],
+      );
+      if (response.error || !response.result) {
+        throw new Error(
+          response.error?.message ?? 'eth_getTransactionCount failed',
+        );
+      }
+      return Number(BigInt(response.result));
+    };
+
+    let high = Number(BigInt(head.result));
+    let low = Math.max(high - maxBlocks, 0);
+    if ((await nonceAt(low)) > nonce || (await nonceAt(high)) <= nonce) {
+      return null;
+    }
+    while (high - low > 1) {
+      const middle = Math.floor((low + high) / 2);
+      if ((await nonceAt(middle)) > nonce) high = middle;
+      else low = middle;
+    }
+
+    const block = await this.call<{ transactions: EvmTransaction[] } | null>(
+      rpcUrl,
+      'eth_getBlockByNumber',
+      [toQuantity(high), true],
+    );
+    if (block.error) throw new Error(block.error.message);
+    return (
+      block.result?.transactions.find(
+        (transaction) =>
+          transaction.from.toLowerCase() === sender.toLowerCase() &&
+          Number(BigInt(transaction.nonce)) === nonce,
+      ) ?? null
+    );
+  }
+
+  /**
+   * Signature-status confirmation for a Solana transaction, or null while
+   * the cluster has not seen it. Finalized signatures report the full
+   * confirmation threshold. gas_used carries the fee in lamports.
+   */
+  async getSolanaConfirmation(
+    signature: string,
+  ): Promise<TransactionConfirmation | null> {
+    const connection = this.getSolanaConnection();
+    const { value } = await connection.getSignatureStatuses([signature], {
+      searchTransactionHistory: true,
+    });
+    const status = value[0];
+    if (!status) return null;
+
+    const confirmations =
+      status.confirmationStatus === 'finalized'
+        ? CHAIN_CONFIRMATIONS[Chain.SOLANA]
+        : (status.confirmations ?? 0);
+
+    let fee: string | undefined;
+    if (confirmations >= CHAIN_CONFIRMATIONS[Chain.SOLANA] || status.err) {
+      const transaction = await connection.getTransaction(signature, {
+        maxSupportedTransactionVersion: 0,
+      });
+      fee = transaction?.meta?.fee.toString();
+    }
+
+    return {
+      transaction_hash: signature,
+      block_number: status.slot,
+      confirmations,
+      status: status.err ? 'failed' : 'success',
+      gas_used: fee,
+    };
+  }
+
+  private requireRpcUrl(chain: string): string {
+    const rpcUrl = this.getRpcUrl(chain);
+    if (!rpcUrl) throw new Error(`No RPC endpoint configured for ${chain}`);
+    return rpcUrl;
+  }
+}
@@ -0,0 +1,400 @@
+/**
+ * Confirmation Watcher
+ * BullMQ worker that follows a broadcast transaction to finality
+ *
+ * Phase 1 (source) polls the receipt / signature status at the chain's
+ * block time until CHAIN_CONFIRMATIONS is reached, catching reverted,
+ * replaced and dropped transactions (which are handed to failover, as the
+ * funds never left the wallet). Phase 2 (destination) polls the provider
+ * until the funds arrive.
+ */
+
+import { Logger, OnApplicationBootstrap } from '@nestjs/common';
+import { OnWorkerEvent, Processor, WorkerHost } from '@nestjs/bullmq';
+import { Prisma } from '@prisma/client';
+import { DelayedError, Job } from 'bullmq';
+import { PrismaService } from '../../config/prisma.service';
+import { AppConfigService } from '../../config/app-config.service';
+import { ProviderRegistry } from '../providers/provider-registry.service';
+import { ProviderReliabilityService } from '../providers/provider-reliability.service';
+import { ChainRpcService, EvmTransaction } from './chain-rpc.service';
+import { ExecutionFailoverService } from './execution-failover.service';
+import { RealtimeEventsService } from '../realtime/realtime-events.service';
+import {
+  Chain,
+  CHAIN_BLOCK_TIMES,
+  CHAIN_CONFIRMATIONS,
+  CHAIN_TYPES,
+  ChainType,
+  TransactionStatus,
+} from '../../common/constants';
+import { TransactionConfirmation } from '../../common/interfaces';
+
+export const CONFIRMATION_QUEUE = 'execution-confirmation';
+
+const MIN_POLL_INTERVAL_MS = 1000;
+const DESTINATION_POLL_INTERVAL_MS = 15000;
+const MAX_WATCH_TIME_MS = 60 * 60 * 1000; // Give up after an hour
+const REPLACEMENT_SEARCH_MARGIN_BLOCKS = 10;
+
+export interface ConfirmationJobData {
+  execution_id: string;
+  chain: string;
+  transaction_hash: string;
+  phase: 'source' | 'destination';
+  broadcast_at: number; // epoch ms
+  sender?: string; // EVM: for replacement detection
+  nonce?: number;
+  to?: string; // EVM: same call at the same nonce is a speed-up
+  input?: string;
+  value?: string;
+  recent_blockhash?: string; // Solana: for dropped-transaction detection
+}
+
+type ExecutionUpdate = Parameters<
+  PrismaService['execution']['update']
+>[0]['data'];
+
+@Processor(CONFIRMATION_QUEUE)
+export class ConfirmationWatcherProcessor
+  extends WorkerHost
+  implements OnApplicationBootstrap
+{
+  private readonly logger = new Logger(ConfirmationWatcherProcessor.name);
+
+  constructor(
+    private readonly prismaService: PrismaService,
+    private readonly configService: AppConfigService,
+    private readonly providerRegistry: ProviderRegistry,
+    private readonly chainRpc: ChainRpcService,
+    private readonly failover: ExecutionFailoverService,
+    private readonly reliability: ProviderReliabilityService,
+    private readonly realtimeEvents: RealtimeEventsService,
+  ) {
+    super();
+  }
+
+  onApplicationBootstrap() {
+    this.worker.concurrency = this.configService.getQueueConfig().concurrency;
+  }
+
+  async process(job: Job<ConfirmationJobData>, token?: string): Promise<void> {
+    const data = job.data;
+    const execution = await this.prismaService.execution.findUnique({
+      where: { id: data.execution_id },
+      include: { route: true },
+    });
+
+    // Finished elsewhere (e.g. a status refresh from the API)
+    if (
+      !execution ||
+      (execution.status as TransactionStatus) !== TransactionStatus.CONFIRMING
+    ) {
+      return;
+    }
+
+    if (Date.now() - data.broadcast_at > MAX_WATCH_TIME_MS) {
+      await this.finish(data, TransactionStatus.TIMEOUT, {
+        failure_reason: `Not settled after ${MAX_WATCH_TIME_MS / 60000} minutes`,
+      });
+      return;
+    }
+
+    let settled = false;
+    try {
+      settled =
+        data.phase === 'source'
+          ? await this.checkSource(job)
+          : await this.checkDestination(data, execution.route.provider);
+    } catch (error) {
+      // RPC / provider hiccups: poll again instead of using up job attempts
+      this.logger.warn(
+        `Execution ${data.execution_id}: confirmation check failed, retrying: ${(error as Error).message}`,
+      );
+    }
+
+    if (!settled) {
+      await job.moveToDelayed(
+        Date.now() + this.getPollInterval(job.data),
+        token,
+      );
+      throw new DelayedError();
+    }
+  }
+
+  /**
+   * A job that used up its attempts would leave the execution stuck in
+   * CONFIRMING — time it out instead
+   */
+  @OnWorkerEvent('failed')
+  async onFailed(
+    job: Job<ConfirmationJobData> | undefined,
+    error: Error,
+  ): Promise<void> {
+    if (!job || job.attemptsMade < (job.opts.attempts ?? 1)) return;
+    try {
+      await this.finish(job.data, TransactionStatus.TIMEOUT, {
+        failure_reason: `Confirmation watcher failed: ${error.message}`,
+      });
+    } catch (finishError) {
+      this.logger.error(
+        `Execution ${job.data.execution_id} left in confirming: ${(finishError as Error).message}`,
+      );
+    }
+  }
+
+  /**
+   * Returns true once the execution reached a terminal state. Moves the job
+   * to the destination phase when the source transaction is final.
+   */
+  private async checkSource(job: Job<ConfirmationJobData>): Promise<boolean> {
+    const data = job.data;
+    const chainType = CHAIN_TYPES[data.chain as Chain];
+    const confirmation =
+      chainType === ChainType.SOLANA
+        ? await this.chainRpc.getSolanaConfirmation(data.transaction_hash)
+        : await this.chainRpc.getEvmConfirmation(
+            data.chain,
+            data.transaction_hash,
+          );
+
+    if (!confirmation) {
+      return this.checkNotMined(job, chainType);
+    }
+
+    const actualFee = this.getFee(confirmation);
+
+    if (confirmation.status === 'failed') {
+      const finished = await this.finish(data, TransactionStatus.FAILED, {
+        failure_reason: 'Transaction reverted',
+        actual_fee: actualFee,
+      });
+      if (finished) {
+        await this.failover.attemptFailover(
+          data.execution_id,
+          'Transaction reverted',
+        );
+      }
+      return true;
+    }
+
+    const required = CHAIN_CONFIRMATIONS[data.chain as Chain] ?? 1;
+    if (confirmation.confirmations < required) {
+      this.logger.debug(
+        `Execution ${data.execution_id}: ${confirmation.confirmations}/${required} confirmations`,
+      );
+      return false;
+    }
+
+    this.logger.log(
+      `Execution ${data.execution_id} final on ${data.chain} at block ${confirmation.block_number}`,
+    );
+    await this.prismaService.execution.update({
+      where: { id: data.execution_id },
+      data: { actual_fee: actualFee },
+    });
+    await job.updateData({ ...data, phase: 'destination' });
+    return false;
+  }
+
+  /**
+   * A transaction that is not mined yet may have been replaced (same
+   * nonce mined by another tx) or dropped (Solana blockhash expired).
+   * The receipt is read again before either verdict, as the transaction
+   * may have landed between the two calls.
+   */
+  private async checkNotMined(
+    job: Job<ConfirmationJobData>,
+    chainType: ChainType,
+  ): Promise<boolean> {
+    const data = job.data;
+
+    if (
+      chainType === ChainType.EVM &&
+      data.sender &&
+      data.nonce !== undefined
+    ) {
+      const minedNonce = await this.chainRpc.getEvmTransactionCount(
+        data.chain,
+        data.sender,
+      );
+      if (minedNonce <= data.nonce) return false;
+
+      const confirmation = await this.chainRpc.getEvmConfirmation(
+        data.chain,
+        data.transaction_hash,
+      );
+      if (confirmation) return false;
+
+      return this.handleReplacement(job, data.sender, data.nonce);
+    }
+
+    if (chainType === ChainType.SOLANA && data.recent_blockhash) {
+      const { value: isValid } = await this.chainRpc
+        .getSolanaConnection()
+        .isBlockhashValid(data.recent_blockhash);
+      if (isValid) return false;
+
+      const confirmation = await this.chainRpc.getSolanaConfirmation(
+        data.transaction_hash,
+      );
+      if (confirmation) return false;
+
+      const finished = await this.finish(data, TransactionStatus.FAILED, {
+        failure_reason: 'blockhash_expired',
+      });
+      if (finished) {
+        await this.failover.attemptFailover(
+          data.execution_id,
+          'blockhash_expired',
+        );
+      }
+      return true;
+    }
+
+    return false;
+  }
+
+  /**
+   * Our nonce was mined by another transaction. A speed-up (same call at a
+   * higher fee) is followed under its own hash; anything else means the
+   * route never ran, so the execution is REPLACED and fails over. When the
+   * replacement cannot be found the funds may have moved — no failover.
+   */
+  private async handleReplacement(
+    job: Job<ConfirmationJobData>,
+    sender: string,
+    nonce: number,
+  ): Promise<boolean> {
+    const data = job.data;
+    const blockTimeMs = (CHAIN_BLOCK_TIMES[data.chain as Chain] ?? 2) * 1000;
+    const replacement = await this.chainRpc.findEvmTransactionByNonce(
+      data.chain,
+      sender,
+      nonce,
+      Math.ceil((Date.now() - data.broadcast_at) / blockTimeMs) +
+        REPLACEMENT_SEARCH_MARGIN_BLOCKS,
+    );
+
+    if (replacement && this.isSpeedUp(data, replacement)) {
+      this.logger.log(
+        `Execution ${data.execution_id}: ${data.transaction_hash} sped up as ${replacement.hash}`,
+      );
+      await this.prismaService.execution.update({
+        where: { id: data.execution_id },
+        data: { transaction_hash: replacement.hash },
+      });
+      await job.updateData({ ...data, transaction_hash: replacement.hash });
+      return false;
+    }
+
+    const reason = replacement
+      ? `Nonce ${nonce} was used by transaction ${replacement.hash}`
+      : `Nonce ${nonce} was used by another transaction`;
+    const finished = await this.finish(data, TransactionStatus.REPLACED, {
+      failure_reason: reason,
+    });
+    if (finished && replacement) {
+      await this.failover.attemptFailover(data.execution_id, reason);
+    }
+    return true;
+  }
+
+  private isSpeedUp(
+    data: ConfirmationJobData,
+    replacement: EvmTransaction,
+  ): boolean {
+    return (
+      !!data.to &&
+      data.input !== undefined &&
+      replacement.to?.toLowerCase() === data.to.toLowerCase() &&
+      replacement.input.toLowerCase() === data.input.toLowerCase() &&
+      BigInt(replacement.value) === BigInt(data.value ?? 0)
+    );
+  }
+
+  private async checkDestination(
+    data: ConfirmationJobData,
+    provider: string,
+  ): Promise<boolean> {
+    const connector = this.providerRegistry.getProvider(provider);
+    if (!connector) return false;
+
+    const update = await connector.getStatus(data.transaction_hash);
+
+    if (update.status === 'success') {
+      const execution = await this.prismaService.execution.findUnique({
+        where: { id: data.execution_id },
+      });
+      const startedAt = execution?.started_at?.getTime() ?? data.broadcast_at;
+      await this.finish(data, TransactionStatus.SUCCESS, {
+        actual_output: update.received_amount,
+        actual_time: Math.round((Date.now() - startedAt) / 1000),
+      });
+      return true;
+    }
+
+    if (update.status === 'failed') {
+      await this.finish(data, TransactionStatus.FAILED, {
+        failure_reason: update.error_message ?? update.substatus,
+      });
+      return true;
+    }
+
+    return false;
+  }
+
+  /**
+   * Move the execution out of CONFIRMING. Returns false when something else
+   * (e.g. an API status refresh) already settled it.
+   */
+  private async finish(
+    data: ConfirmationJobData,
+    status: TransactionStatus,
+    fields: ExecutionUpdate,
+  ): Promise<boolean> {
+    try {
+      const execution = await this.prismaService.execution.update({
+        where: { id: data.execution_id, status: TransactionStatus.CONFIRMING },
+        data: { ...fields, status, completed_at: new Date() },
+        include: { route: true },
+      });
+      this.logger.log(
+        `Execution ${data.execution_id}: confirming -> ${status}`,
+      );
+      this.realtimeEvents.publishExecutionStatus(execution);
+      await this.reliability.recordExecutionOutcome(
+        execution.route.provider,
+        execution,
+      );
+      await this.failover.settleAttempt(execution);
+      return true;
+    } catch (error) {
+      if (
+        error instanceof Prisma.PrismaClientKnownRequestError &&
+        error.code === 'P2025'
+      ) {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Native fee paid: gas_used * effective_gas_price on EVM, the
+   * transaction fee in lamports on Solana
+   */
+  private getFee(confirmation: TransactionConfirmation): string | undefined {
+    if (!confirmation.gas_used) return undefined;
+    if (!confirmation.effective_gas_price) return confirmation.gas_used;
+    return (
+      BigInt(confirmation.gas_used) * BigInt(confirmation.effective_gas_price)
+    ).toString();
+  }
+
+  private getPollInterval(data: ConfirmationJobData): number {
+    if (data.phase === 'destination') return DESTINATION_POLL_INTERVAL_MS;
+    const blockTime = CHAIN_BLOCK_TIMES[data.chain as Chain] ?? 2;
+    return Math.max(blockTime * 1000, MIN_POLL_INTERVAL_MS);
+  }
+}
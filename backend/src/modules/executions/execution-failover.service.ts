@@ -0,0 +1,206 @@
+/**
+ * Execution Failover Service
+ * Re-routes a failed execution through another provider when the user's
+ * funds never left the wallet (broadcast rejected, reverted, replaced or
+ * dropped on the source chain)
+ */
+
+import { Injectable, Logger } from '@nestjs/common';
+import { Execution } from '@prisma/client';
+import { PrismaService } from '../../config/prisma.service';
+import { AppConfigService } from '../../config/app-config.service';
+import { QuoteAggregatorService } from '../providers/quote-aggregator.service';
+import { ProviderRegistry } from '../providers/provider-registry.service';
+import { RouteStoreService } from '../providers/route-store.service';
+import { RouteComparisonService } from '../routes/route-comparison.service';
+import { PendingTransactionService } from './pending-transaction.service';
+import { RealtimeEventsService } from '../realtime/realtime-events.service';
+import { TransactionStatus } from '../../common/constants';
+import {
+  ExecutionResponse,
+  QuoteParams,
+  StrategyType,
+} from '../../common/interfaces';
+
+const MAX_FAILOVER_ATTEMPTS = 2;
+
+@Injectable()
+export class ExecutionFailoverService {
+  private readonly logger = new Logger(ExecutionFailoverService.name);
+
+  constructor(
+    private readonly prismaService: PrismaService,
+    private readonly configService: AppConfigService,
+    private readonly quoteAggregator: QuoteAggregatorService,
+    private readonly routeComparison: RouteComparisonService,
+    private readonly providerRegistry: ProviderRegistry,
+    private readonly routeStore: RouteStoreService,
+    private readonly pendingTransactions: PendingTransactionService,
+    private readonly realtimeEvents: RealtimeEventsService,
+  ) {}
+
+  /**
+   * Move the execution onto the next-best route from a different provider
+   * and put it back to AWAITING_SIGNATURE with a freshly built transaction.
+   * Returns null when failover is disabled, exhausted or not possible.
+   */
+  async attemptFailover(
+    executionId: string,
+    reason: string,
+  ): Promise<ExecutionResponse | null> {
+    if (!this.configService.getFeatureFlags().autoFailover) return null;
+
+    const execution = await this.prismaService.execution.findUnique({
+      where: { id: executionId },
+      include: { route: true },
+    });
+    if (!execution || execution.retry_count >= MAX_FAILOVER_ATTEMPTS) {
+      return null;
+    }
+
+    const original = execution.route;
+    const params: QuoteParams = {
+      source_chain: original.source_chain,
+      destination_chain: original.destination_chain,
+      source_token: original.source_token,
+      destination_token: original.destination_token,
+      amount: original.input_amount,
+      slippage_tolerance: original.slippage_tolerance,
+      user_wallet: execution.user_wallet,
+    };
+    let fallbackProvider = 'none';
+
+    try {
+      const quotes = await this.quoteAggregator.aggregateQuotes(params);
+      const ranked = await this.routeComparison.scoreAndRankRoutes(
+        quotes.routes,
+        (execution.strategy as StrategyType | null) ?? 'lowest_cost',
+        execution.user_wallet,
+      );
+      const [backup] = this.routeComparison.getBackupRoutes(
+        ranked,
+        1,
+        original.provider,
+      );
+      if (!backup) {
+        throw new Error('No alternative route from another provider');
+      }
+      fallbackProvider = backup.provider;
+
+      const connector = this.providerRegistry.getProvider(backup.provider);
+      if (!connector) {
+        throw new Error(`Provider ${backup.provider} is not available`);
+      }
+
+      // Ranked quotes may come from cache — re-quote so the user signs
+      // against current terms
+      const quote = await connector.getQuote(params);
+      await this.routeStore.saveRoutes([quote]);
+      const route = await this.routeStore.getRoute(quote.route_id);
+      if (!route) throw new Error('Re-quoted route could not be stored');
+      await this.routeStore.persistRoute(route);
+
+      const transaction = await connector.buildTransaction(
+        route.route_id,
+        execution.user_wallet,
+        execution.destination_wallet ?? undefined,
+      );
+
+      const [updated] = await this.prismaService.$transaction([
+        this.prismaService.execution.update({
+          where: { id: executionId },
+          data: {
+            route_id: route.route_id,
+            status: TransactionStatus.AWAITING_SIGNATURE,
+            transaction_hash: null,
+            expected_output: route.output_amount,
+            expected_time: Math.round(route.estimated_time),
+            expected_fee: route.total_fee.network_fee,
+            actual_output: null,
+            actual_time: null,
+            actual_fee: null,
+            failure_reason: reason,
+            failover_attempted: true,
+            retry_count: { increment: 1 },
+            started_at: null,
+            completed_at: null,
+          },
+        }),
+        this.prismaService.failoverAttempt.create({
+          data: {
+            execution_id: executionId,
+            original_provider: original.provider,
+            fallback_provider: route.provider,
+            reason,
+            // Settled by settleAttempt once the backup route finishes
+            was_successful: null,
+          },
+        }),
+      ]);
+
+      this.logger.log(
+        `Execution ${executionId} failed over ${original.provider} -> ${route.provider} (${reason})`,
+      );
+
+      const response: ExecutionResponse = {
+        execution_id: executionId,
+        route_id: route.route_id,
+        chain_type: transaction.chain_type,
+        transaction_data: transaction.transaction_data,
+        approval_data: transaction.approval_data,
+        solana_transaction: transaction.solana_transaction,
+        status: TransactionStatus.AWAITING_SIGNATURE,
+        created_at: updated.created_at,
+        expires_at: route.expires_at!,
+      };
+      await this.pendingTransactions.save(response);
+      this.realtimeEvents.publishExecutionStatus(updated);
+      return response;
+    } catch (error) {
+      const message = (error as Error).message;
+      this.logger.warn(
+        `Failover for execution ${executionId} failed: ${message}`,
+      );
+      // Callers expect null here, not a bookkeeping error
+      try {
+        await this.prismaService.failoverAttempt.create({
+          data: {
+            execution_id: executionId,
+            original_provider: original.provider,
+            fallback_provider: fallbackProvider,
+            reason,
+            was_successful: false,
+            error_message: message,
+          },
+        });
+        await this.prismaService.execution.update({
+          where: { id: executionId },
+          data: { failover_attempted: true },
+        });
+      } catch (recordError) {
+        this.logger.warn(
+          `Failed to record failover attempt for ${executionId}: ${(recordError as Error).message}`,
+        );
+      }
+      return null;
+    }
+  }
+
+  /**
+   * Record the outcome of a pending failover attempt once the execution it
+   * re-routed reaches a terminal state
+   */
+  async settleAttempt(execution: Execution): Promise<void> {
+    if (!execution.failover_attempted) return;
+
+    const succeeded =
+      (execution.status as TransactionStatus) === TransactionStatus.SUCCESS;
+    await this.prismaService.failoverAttempt.updateMany({
+      where: { execution_id: execution.id, was_successful: null },
+      data: {
+        was_successful: succeeded,
+        error_message: succeeded ? null : execution.failure_reason,
+      },
+    });
+  }
+}
@@ -0,0 +1,89 @@
+/**
+ * Executions Controller
+ * Exposes the route execution lifecycle
+ */
+
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  Query,
+  Logger,
+  BadRequestException,
+} from '@nestjs/common';
+import { ExecutionsService } from './executions.service';
+import {
+  ExecuteRouteRequestDto,
+  ExecutionResponseDto,
+  ExecutionStatusResponseDto,
+  SubmitSignedTransactionDto,
+} from '../../common/dto';
+import { RateLimit } from '../api-keys/rate-limit.decorator';
+import { RateLimitCategory } from '../../common/constants';
+
+@Controller('executions')
+export class ExecutionsController {
+  private readonly logger = new Logger(ExecutionsController.name);
+
+  constructor(private readonly executionsService: ExecutionsService) {}
+
+  /**
+   * POST /executions
+   * Creates an execution from a quoted route and returns the unsigned transaction
+   */
+  @Post()
+  @RateLimit(RateLimitCategory.EXECUTION)
+  async createExecution(
+    @Body() request: ExecuteRouteRequestDto,
+  ): Promise<ExecutionResponseDto> {
+    this.logger.log(
+      `Execution request: route ${request.route_id} from ${request.user_wallet}`,
+    );
+
+    const execution = await this.executionsService.createExecution(request);
+    return {
+      ...execution,
+      created_at: execution.created_at.toISOString(),
+      expires_at: execution.expires_at.toISOString(),
+    };
+  }
+
+  /**
+   * GET /executions?wallet=0x...
+   */
+  @Get()
+  async getExecutions(@Query('wallet') wallet: string) {
+    if (!wallet) {
+      throw new BadRequestException('wallet query parameter is required');
+    }
+    return {
+      executions: await this.executionsService.getExecutionsByWallet(wallet),
+    };
+  }
+
+  /**
+   * POST /executions/:id/submit
+   * Accepts the signed transaction for an execution awaiting signature
+   */
+  @Post(':id/submit')
+  @RateLimit(RateLimitCategory.EXECUTION)
+  async submitSignedTransaction(
+    @Param('id') id: string,
+    @Body() submission: SubmitSignedTransactionDto,
+  ): Promise<ExecutionStatusResponseDto> {
+    return this.executionsService.submitSignedTransaction(id, submission);
+  }
+
+  /**
+   * GET /executions/:id
+   * Live status, refreshed from the provider while the execution is in flight
+   */
+  @Get(':id')
+  async getExecutionStatus(
+    @Param('id') id: string,
+  ): Promise<ExecutionStatusResponseDto> {
+    return this.executionsService.getExecutionStatus(id);
+  }
+}
@@ -0,0 +1,48 @@
+/**
+ * Executions Module
+ * Handles route execution from unsigned transaction to completion
+ */
+
+import { Module } from '@nestjs/common';
+import { BullModule } from '@nestjs/bullmq';
+import { BullBoardModule } from '@bull-board/nestjs';
+import { BullMQAdapter } from '@bull-board/api/bullMQAdapter';
+import { ExecutionsController } from './executions.controller';
+import { ExecutionsService } from './executions.service';
+import { TransactionBroadcasterService } from './transaction-broadcaster.service';
+import { ChainRpcService } from './chain-rpc.service';
+import {
+  CONFIRMATION_QUEUE,
+  ConfirmationWatcherProcessor,
+} from './confirmation-watcher.processor';
+import { ExecutionFailoverService } from './execution-failover.service';
+import { PendingTransactionService } from './pending-transaction.service';
+import { ProvidersModule } from '../providers/providers.module';
+import { RoutesModule } from '../routes/routes.module';
+import { RealtimeModule } from '../realtime/realtime.module';
+import { AppConfigService } from '../../config/app-config.service';
+
+@Module({
+  imports: [
+    ProvidersModule,
+    RoutesModule,
+    RealtimeModule,
+    BullModule.registerQueue({ name: CONFIRMATION_QUEUE }),
+    BullBoardModule.forFeature({
+      name: CONFIRMATION_QUEUE,
+      adapter: BullMQAdapter,
+    }),
+  ],
+  providers: [
+    AppConfigService,
+    ExecutionsService,
+    ChainRpcService,
+    TransactionBroadcasterService,
+    ConfirmationWatcherProcessor,
+    ExecutionFailoverService,
+    PendingTransactionService,
+  ],
+  controllers: [ExecutionsController],
+  exports: [ExecutionsService],
+})
+export class ExecutionsModule {}
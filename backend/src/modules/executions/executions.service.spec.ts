@@ -0,0 +1,203 @@
+import { Queue } from 'bullmq';
+import {
+  Keypair,
+  PublicKey,
+  SystemProgram,
+  TransactionMessage,
+  VersionedTransaction,
+} from '@solana/web3.js';
+import { ExecutionsService } from './executions.service';
+import { PrismaService } from '../../config/prisma.service';
+import { ProviderRegistry } from '../providers/provider-registry.service';
+import { RouteStoreService } from '../providers/route-store.service';
+import { ProviderReliabilityService } from '../providers/provider-reliability.service';
+import { TransactionBroadcasterService } from './transaction-broadcaster.service';
+import { ExecutionFailoverService } from './execution-failover.service';
+import { PendingTransactionService } from './pending-transaction.service';
+import { RealtimeEventsService } from '../realtime/realtime-events.service';
+import { MetricsService } from '../../common/metrics/metrics.service';
+import { ConfirmationJobData } from './confirmation-watcher.processor';
+import { ChainType, TransactionStatus } from '../../common/constants';
+import { ExecutionResponse } from '../../common/interfaces';
+
+const EXECUTION_ID = 'execution-1';
+const payer = Keypair.generate();
+
+function unsignedTransaction(blockhash: string): VersionedTransaction {
+  const message = new TransactionMessage({
+    payerKey: payer.publicKey,
+    recentBlockhash: blockhash,
+    instructions: [
+      SystemProgram.transfer({
+        fromPubkey: payer.publicKey,
+        toPubkey: new PublicKey('11111111111111111111111111111112'),
+        lamports: 1000,
+      }),
+    ],
+  }).compileToV0Message();
+  return new VersionedTransaction(message);
+}
+
+function serialize(transaction: VersionedTransaction): string {
+  return Buffer.from(transaction.serialize()).toString('base64');
+}
+
+function setup() {
+  const staleBlockhash = Keypair.generate().publicKey.toBase58();
+  const freshBlockhash = Keypair.generate().publicKey.toBase58();
+  const pending: ExecutionResponse = {
+    execution_id: EXECUTION_ID,
+    route_id: 'route-1',
+    chain_type: ChainType.SOLANA,
+    solana_transaction: {
+      serialized_transaction: serialize(unsignedTransaction(staleBlockhash)),
+    },
+    status: TransactionStatus.AWAITING_SIGNATURE,
+    created_at: new Date(),
+    expires_at: new Date(Date.now() + 60_000),
+  };
+  const execution = {
+    id: EXECUTION_ID,
+    route_id: 'route-1',
+    user_wallet: payer.publicKey.toBase58(),
+    destination_wallet: null,
+    status: TransactionStatus.AWAITING_SIGNATURE,
+    failover_attempted: false,
+    route: { provider: 'mayan', source_chain: 'solana' },
+  };
+
+  const prisma = {
+    execution: {
+      findUnique: jest.fn().mockResolvedValue(execution),
+      updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+      update: jest.fn(({ data }: { data: object }) =>
+        Promise.resolve({ ...execution, ...data }),
+      ),
+    },
+  };
+  const connector = {
+    buildTransaction: jest.fn().mockResolvedValue({
+      route_id: 'route-1',
+      user_wallet: execution.user_wallet,
+      chain_id: 'solana',
+      chain_type: ChainType.SOLANA,
+      solana_transaction: {
+        serialized_transaction: serialize(unsignedTransaction(freshBlockhash)),
+      },
+    }),
+  };
+  const pendingTransactions = {
+    get: jest.fn().mockResolvedValue(pending),
+    save: jest.fn(),
+    clear: jest.fn(),
+  };
+  const broadcaster = {
+    broadcast: jest.fn().mockResolvedValue({
+      success: false,
+      transaction_hash: 'sig',
+      error_code: 'blockhash_expired',
+      error_message: 'Blockhash not found',
+    }),
+  };
+  const failover = {
+    attemptFailover: jest.fn().mockResolvedValue(null),
+    settleAttempt: jest.fn(),
+  };
+
+  const service = new ExecutionsService(
+    prisma as unknown as PrismaService,
+    {
+      getProvider: () => connector,
+    } as unknown as ProviderRegistry,
+    {} as RouteStoreService,
+    broadcaster as unknown as TransactionBroadcasterService,
+    failover as unknown as ExecutionFailoverService,
+    pendingTransactions as unknown as PendingTransactionService,
+    {
+      recordExecutionOutcome: jest.fn(),
+    } as unknown as ProviderReliabilityService,
+    {
+      publishExecutionStatus: jest.fn(),
+    } as unknown as RealtimeEventsService,
+    { trackQueue: jest.fn() } as unknown as MetricsService,
+    {} as Queue<ConfirmationJobData>,
+  );
+
+  // The wallet signs exactly the pending (stale) transaction
+  const signed = unsignedTransaction(staleBlockhash);
+  signed.sign([payer]);
+  const submission = {
+    execution_id: EXECUTION_ID,
+    signed_transaction: serialize(signed),
+  };
+
+  return {
+    service,
+    submission,
+    prisma,
+    connector,
+    pendingTransactions,
+    failover,
+    freshBlockhash,
+  };
+}
+
+describe('ExecutionsService', () => {
+  describe('submitSignedTransaction with an expired blockhash', () => {
+    it('rebuilds the transaction and returns it to sign again', async () => {
+      const { service, submission, pendingTransactions, freshBlockhash } =
+        setup();
+
+      const response = await service.submitSignedTransaction(
+        EXECUTION_ID,
+        submission,
+      );
+
+      expect(response.status).toBe(TransactionStatus.AWAITING_SIGNATURE);
+      const rebuilt = VersionedTransaction.deserialize(
+        Buffer.from(
+          response.pending_transaction!.solana_transaction!
+            .serialized_transaction,
+          'base64',
+        ),
+      );
+      expect(rebuilt.message.recentBlockhash).toBe(freshBlockhash);
+      expect(pendingTransactions.save).toHaveBeenCalledWith(
+        expect.objectContaining({
+          execution_id: EXECUTION_ID,
+          solana_transaction: response.pending_transaction!.solana_transaction,
+        }),
+      );
+    });
+
+    it('fails the execution and tries a failover when the rebuild fails', async () => {
+      const { service, submission, connector, failover, prisma } = setup();
+      connector.buildTransaction.mockRejectedValue(new Error('Route expired'));
+
+      const response = await service.submitSignedTransaction(
+        EXECUTION_ID,
+        submission,
+      );
+
+      expect(response.status).toBe(TransactionStatus.FAILED);
+      expect(response.pending_transaction).toBeUndefined();
+      const [[{ data }]] = prisma.execution.update.mock.calls.slice(-1) as [
+        [{ data: { status: string } }],
+      ];
+      expect(data.status).toBe(TransactionStatus.FAILED);
+      expect(failover.attemptFailover).toHaveBeenCalledWith(
+        EXECUTION_ID,
+        expect.stringContaining('Route expired'),
+      );
+    });
+  });
+
+  it('rejects a submit that loses the race for the execution', async () => {
+    const { service, submission, prisma } = setup();
+    prisma.execution.updateMany.mockResolvedValue({ count: 0 });
+
+    await expect(
+      service.submitSignedTransaction(EXECUTION_ID, submission),
+    ).rejects.toMatchObject({ status: 409 });
+  });
+});
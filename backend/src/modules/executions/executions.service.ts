@@ -0,0 +1,683 @@
+/**
+ * Executions Service
+ * Drives a quoted route from unsigned transaction to on-chain completion
+ */
+
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectQueue } from '@nestjs/bullmq';
+import { Execution, Prisma } from '@prisma/client';
+import { Queue } from 'bullmq';
+import { VersionedTransaction } from '@solana/web3.js';
+import { encodeBase58, Transaction } from 'ethers';
+import { PrismaService } from '../../config/prisma.service';
+import { ProviderRegistry } from '../providers/provider-registry.service';
+import { RouteStoreService } from '../providers/route-store.service';
+import { ProviderReliabilityService } from '../providers/provider-reliability.service';
+import { TransactionBroadcasterService } from './transaction-broadcaster.service';
+import { ExecutionFailoverService } from './execution-failover.service';
+import { PendingTransactionService } from './pending-transaction.service';
+import { RealtimeEventsService } from '../realtime/realtime-events.service';
+import { MetricsService } from '../../common/metrics/metrics.service';
+import {
+  CONFIRMATION_QUEUE,
+  ConfirmationJobData,
+} from './confirmation-watcher.processor';
+import {
+  Chain,
+  CHAIN_IDS,
+  CHAIN_TYPES,
+  ChainType,
+  TransactionStatus,
+} from '../../common/constants';
+import {
+  ExecutionResponse,
+  ExecutionStatusUpdate,
+  NormalizedRoute,
+  ProviderConnector,
+} from '../../common/interfaces';
+import {
+  ExecuteRouteRequestDto,
+  ExecutionResponseDto,
+  ExecutionStatusResponseDto,
+  SubmitSignedTransactionDto,
+} from '../../common/dto';
+
+const TERMINAL_STATUSES: string[] = [
+  TransactionStatus.SUCCESS,
+  TransactionStatus.FAILED,
+  TransactionStatus.TIMEOUT,
+  TransactionStatus.REPLACED,
+];
+
+type SignedTransactionDetails = Pick<
+  ConfirmationJobData,
+  | 'transaction_hash'
+  | 'sender'
+  | 'nonce'
+  | 'to'
+  | 'input'
+  | 'value'
+  | 'recent_blockhash'
+>;
+
+type ExecutionWithRoute = Prisma.ExecutionGetPayload<{
+  include: { route: true };
+}>;
+
+@Injectable()
+export class ExecutionsService {
+  private readonly logger = new Logger(ExecutionsService.name);
+
+  constructor(
+    private readonly prismaService: PrismaService,
+    private readonly providerRegistry: ProviderRegistry,
+    private readonly routeStore: RouteStoreService,
+    private readonly broadcaster: TransactionBroadcasterService,
+    private readonly failover: ExecutionFailoverService,
+    private readonly pendingTransactions: PendingTransactionService,
+    private readonly reliability: ProviderReliabilityService,
+    private readonly realtimeEvents: RealtimeEventsService,
+    private readonly metrics: MetricsService,
+    @InjectQueue(CONFIRMATION_QUEUE)
+    private readonly confirmationQueue: Queue<ConfirmationJobData>,
+  ) {
+    this.metrics.trackQueue(this.confirmationQueue);
+  }
+
+  /**
+   * Build the unsigned transaction for a quoted route and open an execution
+   */
+  async createExecution(
+    request: ExecuteRouteRequestDto,
+  ): Promise<ExecutionResponse> {
+    let route = await this.routeStore.getRoute(request.route_id);
+    if (!route) {
+      throw new NotFoundException(
+        `Route ${request.route_id} not found or expired`,
+      );
+    }
+
+    const connector = this.providerRegistry.getProvider(route.provider);
+    if (!connector) {
+      throw new BadRequestException(
+        `Provider ${route.provider} is not available`,
+      );
+    }
+
+    // Approximate routes were rescaled from a cached quote for another
+    // amount — never sign them, re-quote the exact amount instead
+    if (route.approximate) {
+      route = await this.requoteExact(connector, route, request.user_wallet);
+    }
+
+    const transaction = await connector.buildTransaction(
+      route.route_id,
+      request.user_wallet,
+      request.destination_wallet,
+    );
+
+    // Execution references Route, so the write-through must have landed
+    await this.routeStore.persistRoute(route);
+
+    const execution = await this.prismaService.execution.create({
+      data: {
+        route_id: route.route_id,
+        user_wallet: request.user_wallet,
+        destination_wallet: request.destination_wallet,
+        strategy: request.strategy,
+        status: TransactionStatus.AWAITING_SIGNATURE,
+        expected_output: route.output_amount,
+        expected_time: Math.round(route.estimated_time),
+        expected_fee: route.total_fee.network_fee,
+      },
+    });
+
+    this.logger.log(
+      `Execution ${execution.id} created for ${route.provider} route ${route.route_id}`,
+    );
+    this.realtimeEvents.publishExecutionStatus(execution);
+
+    const response: ExecutionResponse = {
+      execution_id: execution.id,
+      route_id: route.route_id,
+      chain_type: transaction.chain_type,
+      transaction_data: transaction.transaction_data,
+      approval_data: transaction.approval_data,
+      solana_transaction: transaction.solana_transaction,
+      status: TransactionStatus.AWAITING_SIGNATURE,
+      created_at: execution.created_at,
+      expires_at: new Date(route.expires_at!),
+    };
+    await this.pendingTransactions.save(response);
+    return response;
+  }
+
+  /**
+   * Broadcast the signed transaction and start tracking it by hash. The
+   * payload must match the pending transaction built for this execution.
+   * BROADCASTING -> CONFIRMING on success, or when the RPC error leaves the
+   * outcome unknown. Nonce-too-low and expired blockhash put the execution
+   * back to AWAITING_SIGNATURE so the wallet can sign again (with a rebuilt
+   * transaction for an expired blockhash); a definitive rejection, or a
+   * rebuild that fails, fails it and triggers a failover.
+   */
+  async submitSignedTransaction(
+    executionId: string,
+    submission: SubmitSignedTransactionDto,
+  ): Promise<ExecutionStatusResponseDto> {
+    if (submission.execution_id !== executionId) {
+      throw new BadRequestException('execution_id does not match the URL');
+    }
+
+    const execution = await this.findExecution(executionId);
+    if (
+      (execution.status as TransactionStatus) !==
+      TransactionStatus.AWAITING_SIGNATURE
+    ) {
+      throw new ConflictException(
+        `Execution ${executionId} is already ${execution.status}`,
+      );
+    }
+
+    const pending = await this.pendingTransactions.get(executionId);
+    if (!pending) {
+      throw new BadRequestException(
+        `Execution ${executionId} has no pending transaction to sign (expired)`,
+      );
+    }
+
+    const sourceChain = execution.route.source_chain;
+    const signed = this.parseSignedTransaction(execution, pending, submission);
+    const transactionHash = signed.transaction_hash;
+
+    let claimed: Prisma.BatchPayload;
+    try {
+      // Guarded on AWAITING_SIGNATURE so concurrent submits cannot both
+      // broadcast and overwrite each other's transaction hash
+      claimed = await this.prismaService.execution.updateMany({
+        where: {
+          id: executionId,
+          status: TransactionStatus.AWAITING_SIGNATURE,
+        },
+        data: {
+          status: TransactionStatus.BROADCASTING,
+          transaction_hash: transactionHash,
+          started_at: new Date(),
+          failure_reason: null,
+        },
+      });
+    } catch (error) {
+      if (
+        error instanceof Prisma.PrismaClientKnownRequestError &&
+        error.code === 'P2002'
+      ) {
+        throw new ConflictException(
+          `Transaction ${transactionHash} was already submitted`,
+        );
+      }
+      throw error;
+    }
+    if (claimed.count === 0) {
+      throw new ConflictException(
+        `Execution ${executionId} is no longer awaiting a signature`,
+      );
+    }
+
+    const result = await this.broadcaster.broadcast(
+      sourceChain,
+      submission.signed_transaction,
+      transactionHash,
+    );
+
+    // An rpc_error may still have reached the mempool — let the watcher
+    // find out whether it lands instead of failing over on a guess
+    if (result.success || result.error_code === 'rpc_error') {
+      if (result.success) {
+        this.logger.log(
+          `Execution ${executionId} broadcast on ${sourceChain}: ${result.transaction_hash}${result.already_known ? ' (already known)' : ''}`,
+        );
+      } else {
+        this.logger.warn(
+          `Execution ${executionId} broadcast outcome unknown, watching ${result.transaction_hash}: ${result.error_message}`,
+        );
+      }
+      const updated = await this.prismaService.execution.update({
+        where: { id: executionId },
+        data: {
+          status: TransactionStatus.CONFIRMING,
+          transaction_hash: result.transaction_hash,
+        },
+      });
+      await this.confirmationQueue.add(
+        'watch',
+        {
+          ...signed,
+          execution_id: executionId,
+          chain: sourceChain,
+          transaction_hash: result.transaction_hash,
+          phase: 'source',
+          broadcast_at: Date.now(),
+        },
+        { jobId: `${executionId}-${result.transaction_hash}` },
+      );
+      await this.pendingTransactions.clear(executionId);
+      this.realtimeEvents.publishExecutionStatus(updated);
+      return this.toStatusResponse(updated);
+    }
+
+    this.logger.warn(
+      `Execution ${executionId} broadcast failed (${result.error_code}): ${result.error_message}`,
+    );
+
+    let needsResign =
+      result.error_code === 'nonce_too_low' ||
+      result.error_code === 'blockhash_expired';
+    let failureReason = result.error_message;
+    let rebuilt: ExecutionResponse | undefined;
+    // The pending message pins the expired blockhash — re-signing it can
+    // never land, so the wallet needs a freshly built transaction
+    if (result.error_code === 'blockhash_expired') {
+      try {
+        rebuilt = await this.rebuildPendingTransaction(execution, pending);
+      } catch (error) {
+        needsResign = false;
+        failureReason = `Blockhash expired and the transaction could not be rebuilt: ${(error as Error).message}`;
+        this.logger.warn(`Execution ${executionId}: ${failureReason}`);
+      }
+    }
+    const updated = await this.prismaService.execution.update({
+      where: { id: executionId },
+      data: needsResign
+        ? {
+            status: TransactionStatus.AWAITING_SIGNATURE,
+            transaction_hash: null,
+            started_at: null,
+            failure_reason: result.error_code,
+          }
+        : {
+            status: TransactionStatus.FAILED,
+            completed_at: new Date(),
+            failure_reason: failureReason,
+          },
+    });
+    this.realtimeEvents.publishExecutionStatus(updated);
+    if (needsResign) {
+      return {
+        ...this.toStatusResponse(updated),
+        error_message: result.error_message,
+        pending_transaction: rebuilt
+          ? this.toResponseDto(rebuilt)
+          : await this.getPendingTransaction(executionId),
+      };
+    }
+
+    await this.reliability.recordExecutionOutcome(
+      execution.route.provider,
+      updated,
+    );
+    await this.failover.settleAttempt(updated);
+
+    // Nothing left the wallet — offer the next-best route to sign instead
+    const fallback = await this.failover.attemptFailover(
+      executionId,
+      failureReason ?? 'Broadcast rejected',
+    );
+    if (fallback) {
+      const rerouted = await this.findExecution(executionId);
+      return {
+        ...this.toStatusResponse(rerouted),
+        error_message: failureReason,
+        pending_transaction: this.toResponseDto(fallback),
+      };
+    }
+
+    return {
+      ...this.toStatusResponse(updated),
+      error_message: failureReason,
+    };
+  }
+
+  /**
+   * Current status, refreshed from the provider while the execution is live
+   */
+  async getExecutionStatus(
+    executionId: string,
+  ): Promise<ExecutionStatusResponseDto> {
+    const execution = await this.findExecution(executionId);
+
+    if (
+      (execution.status as TransactionStatus) ===
+      TransactionStatus.AWAITING_SIGNATURE
+    ) {
+      return {
+        ...this.toStatusResponse(execution),
+        pending_transaction: await this.getPendingTransaction(executionId),
+      };
+    }
+
+    if (
+      !execution.transaction_hash ||
+      TERMINAL_STATUSES.includes(execution.status)
+    ) {
+      return this.toStatusResponse(execution);
+    }
+
+    const connector = this.providerRegistry.getProvider(
+      execution.route.provider,
+    );
+    if (!connector) {
+      return this.toStatusResponse(execution);
+    }
+
+    let update: ExecutionStatusUpdate;
+    try {
+      update = await connector.getStatus(execution.transaction_hash);
+    } catch (error) {
+      this.logger.warn(
+        `Status refresh failed for execution ${executionId}: ${(error as Error).message}`,
+      );
+      return this.toStatusResponse(execution);
+    }
+
+    const updated = await this.applyStatusUpdate(execution, update);
+    return this.toStatusResponse(updated, update);
+  }
+
+  /**
+   * Most recent executions started from a wallet
+   */
+  async getExecutionsByWallet(wallet: string) {
+    const executions = await this.prismaService.execution.findMany({
+      where: { user_wallet: wallet },
+      include: { route: true },
+      orderBy: { created_at: 'desc' },
+      take: 50,
+    });
+
+    return executions.map((execution) => ({
+      execution_id: execution.id,
+      route_id: execution.route_id,
+      provider: execution.route.provider,
+      source_chain: execution.route.source_chain,
+      destination_chain: execution.route.destination_chain,
+      status: execution.status,
+      transaction_hash: execution.transaction_hash ?? undefined,
+      expected_output: execution.expected_output,
+      actual_output: execution.actual_output ?? undefined,
+      created_at: execution.created_at.toISOString(),
+      completed_at: execution.completed_at?.toISOString(),
+    }));
+  }
+
+  private async requoteExact(
+    connector: ProviderConnector,
+    route: NormalizedRoute,
+    userWallet: string,
+  ): Promise<NormalizedRoute> {
+    const quote = await connector.getQuote({
+      source_chain: route.source_chain,
+      destination_chain: route.destination_chain,
+      source_token: route.source_token,
+      destination_token: route.destination_token,
+      amount: route.input_amount,
+      slippage_tolerance: route.slippage_tolerance,
+      user_wallet: userWallet,
+    });
+    await this.routeStore.saveRoutes([quote]);
+    const exact = await this.routeStore.getRoute(quote.route_id);
+    if (!exact) {
+      throw new BadRequestException(
+        `Could not re-quote approximate route ${route.route_id}`,
+      );
+    }
+
+    this.logger.log(
+      `Approximate route ${route.route_id} re-quoted as ${exact.route_id} (${route.output_amount} -> ${exact.output_amount})`,
+    );
+    return exact;
+  }
+
+  /**
+   * Build the execution's transaction again from its route (fresh
+   * blockhash) and make it the pending transaction to sign
+   */
+  private async rebuildPendingTransaction(
+    execution: ExecutionWithRoute,
+    pending: ExecutionResponse,
+  ): Promise<ExecutionResponse> {
+    const connector = this.providerRegistry.getProvider(
+      execution.route.provider,
+    );
+    if (!connector) {
+      throw new Error(`Provider ${execution.route.provider} is not available`);
+    }
+
+    const transaction = await connector.buildTransaction(
+      execution.route_id,
+      execution.user_wallet,
+      execution.destination_wallet ?? undefined,
+    );
+    const response: ExecutionResponse = {
+      ...pending,
+      chain_type: transaction.chain_type,
+      transaction_data: transaction.transaction_data,
+      approval_data: transaction.approval_data,
+      solana_transaction: transaction.solana_transaction,
+      status: TransactionStatus.AWAITING_SIGNATURE,
+    };
+    await this.pendingTransactions.save(response);
+    return response;
+  }
+
+  private async findExecution(
+    executionId: string,
+  ): Promise<ExecutionWithRoute> {
+    const execution = await this.prismaService.execution.findUnique({
+      where: { id: executionId },
+      include: { route: true },
+    });
+    if (!execution) {
+      throw new NotFoundException(`Execution ${executionId} not found`);
+    }
+    return execution;
+  }
+
+  /**
+   * Persist a provider status change. Unchanged statuses are not written.
+   */
+  private async applyStatusUpdate(
+    execution: ExecutionWithRoute,
+    update: ExecutionStatusUpdate,
+  ): Promise<Execution> {
+    // Providers report 'pending' until they index the transaction — don't
+    // let that regress an execution that is already confirming
+    if (update.status === execution.status || update.status === 'pending') {
+      return execution;
+    }
+    const status = update.status as TransactionStatus;
+
+    const isTerminal = TERMINAL_STATUSES.includes(status);
+    const now = new Date();
+
+    this.logger.log(
+      `Execution ${execution.id}: ${execution.status} -> ${status}`,
+    );
+
+    let updated: Execution;
+    try {
+      // Guarded on the status we read so the confirmation watcher and this
+      // refresh cannot both settle (and count) the same execution
+      updated = await this.prismaService.execution.update({
+        where: { id: execution.id, status: execution.status },
+        data: {
+          status,
+          completed_at: isTerminal ? now : undefined,
+          actual_output:
+            status === TransactionStatus.SUCCESS
+              ? update.received_amount
+              : undefined,
+          actual_time:
+            status === TransactionStatus.SUCCESS && execution.started_at
+              ? Math.round(
+                  (now.getTime() - execution.started_at.getTime()) / 1000,
+                )
+              : undefined,
+          failure_reason:
+            status === TransactionStatus.FAILED
+              ? (update.error_message ?? update.substatus)
+              : undefined,
+        },
+      });
+    } catch (error) {
+      if (
+        error instanceof Prisma.PrismaClientKnownRequestError &&
+        error.code === 'P2025'
+      ) {
+        return this.findExecution(execution.id);
+      }
+      throw error;
+    }
+
+    this.realtimeEvents.publishExecutionStatus(updated, update);
+    if (isTerminal) {
+      await this.reliability.recordExecutionOutcome(
+        execution.route.provider,
+        updated,
+      );
+      await this.failover.settleAttempt(updated);
+    }
+    return updated;
+  }
+
+  /**
+   * Decode the signed payload and check it is the transaction this
+   * execution is waiting on. The hash (EVM) or fee payer signature (Solana)
+   * is derived from the payload, plus sender/nonce/call or blockhash for
+   * replacement detection.
+   */
+  private parseSignedTransaction(
+    execution: ExecutionWithRoute,
+    pending: ExecutionResponse,
+    submission: SubmitSignedTransactionDto,
+  ): SignedTransactionDetails {
+    const chain = execution.route.source_chain as Chain;
+    const chainType = CHAIN_TYPES[chain];
+
+    try {
+      if (chainType === ChainType.SOLANA) {
+        if (!pending.solana_transaction) {
+          throw new Error('execution is not waiting on a Solana transaction');
+        }
+        const transaction = VersionedTransaction.deserialize(
+          Buffer.from(submission.signed_transaction, 'base64'),
+        );
+        const unsigned = VersionedTransaction.deserialize(
+          Buffer.from(
+            pending.solana_transaction.serialized_transaction,
+            'base64',
+          ),
+        );
+        if (
+          !Buffer.from(transaction.message.serialize()).equals(
+            Buffer.from(unsigned.message.serialize()),
+          )
+        ) {
+          throw new Error('message does not match the pending transaction');
+        }
+
+        const feePayerSignature = transaction.signatures[0];
+        if (!feePayerSignature || feePayerSignature.every((byte) => !byte)) {
+          throw new Error('transaction is not signed');
+        }
+        const signature = encodeBase58(feePayerSignature);
+        if (submission.signature && submission.signature !== signature) {
+          throw new Error('signature does not match the transaction');
+        }
+        return {
+          transaction_hash: signature,
+          recent_blockhash: transaction.message.recentBlockhash,
+        };
+      }
+
+      if (!pending.transaction_data) {
+        throw new Error('execution is not waiting on an EVM transaction');
+      }
+      const transaction = Transaction.from(submission.signed_transaction);
+      if (!transaction.hash || !transaction.from) {
+        throw new Error('transaction is not signed');
+      }
+
+      const expected = pending.transaction_data;
+      const mismatches = [
+        transaction.to?.toLowerCase() !== expected.to.toLowerCase() && 'to',
+        transaction.data.toLowerCase() !== expected.data.toLowerCase() &&
+          'data',
+        transaction.value !== BigInt(expected.value || 0) && 'value',
+        transaction.chainId !== BigInt(CHAIN_IDS[chain]) && 'chainId',
+        transaction.from.toLowerCase() !==
+          execution.user_wallet.toLowerCase() && 'from',
+      ].filter(Boolean);
+      if (mismatches.length > 0) {
+        throw new Error(
+          `${mismatches.join(', ')} does not match the pending transaction`,
+        );
+      }
+
+      return {
+        transaction_hash: transaction.hash,
+        sender: transaction.from,
+        nonce: transaction.nonce,
+        to: transaction.to ?? undefined,
+        input: transaction.data,
+        value: transaction.value.toString(),
+      };
+    } catch (error) {
+      throw new BadRequestException(
+        `Invalid signed ${chainType} transaction: ${(error as Error).message}`,
+      );
+    }
+  }
+
+  private async getPendingTransaction(
+    executionId: string,
+  ): Promise<ExecutionResponseDto | undefined> {
+    const pending = await this.pendingTransactions.get(executionId);
+    return pending ? this.toResponseDto(pending) : undefined;
+  }
+
+  private toResponseDto(response: ExecutionResponse): ExecutionResponseDto {
+    return {
+      ...response,
+      created_at: new Date(response.created_at).toISOString(),
+      expires_at: new Date(response.expires_at).toISOString(),
+    };
+  }
+
+  private toStatusResponse(
+    execution: Execution,
+    update?: ExecutionStatusUpdate,
+  ): ExecutionStatusResponseDto {
+    return {
+      execution_id: execution.id,
+      status: execution.status,
+      transaction_hash: execution.transaction_hash ?? undefined,
+      source_transaction_hash: update?.source_transaction_hash,
+      destination_transaction_hash: update?.destination_transaction_hash,
+      received_amount:
+        update?.received_amount ?? execution.actual_output ?? undefined,
+      substatus: update?.substatus,
+      confirmations: update?.confirmations,
+      block_number: update?.block_number,
+      estimated_completion: update?.estimated_completion?.toISOString(),
+      error_message:
+        update?.error_message ?? execution.failure_reason ?? undefined,
+      timestamp: (update?.timestamp ?? new Date()).toISOString(),
+    };
+  }
+}
@@ -0,0 +1,57 @@
+/**
+ * Pending Transaction Service
+ * Keeps the unsigned transaction an execution is waiting on, so clients
+ * can fetch it again (e.g. after a failover re-routes the execution)
+ */
+
+import { Injectable, Logger } from '@nestjs/common';
+import { RedisService } from '../../config/redis.service';
+import { ExecutionResponse } from '../../common/interfaces';
+
+const PENDING_TX_PREFIX = 'execution:pending-tx:';
+
+@Injectable()
+export class PendingTransactionService {
+  private readonly logger = new Logger(PendingTransactionService.name);
+
+  constructor(private readonly redisService: RedisService) {}
+
+  async save(transaction: ExecutionResponse): Promise<void> {
+    const ttl = Math.ceil(
+      (new Date(transaction.expires_at).getTime() - Date.now()) / 1000,
+    );
+    if (ttl <= 0) return;
+
+    try {
+      await this.redisService.setJson(
+        PENDING_TX_PREFIX + transaction.execution_id,
+        transaction,
+        ttl,
+      );
+    } catch (error) {
+      this.logger.warn(
+        `Failed to store pending transaction for ${transaction.execution_id}: ${(error as Error).message}`,
+      );
+    }
+  }
+
+  async get(executionId: string): Promise<ExecutionResponse | null> {
+    try {
+      return await this.redisService.getJson<ExecutionResponse>(
+        PENDING_TX_PREFIX + executionId,
+      );
+    } catch {
+      return null;
+    }
+  }
+
+  async clear(executionId: string): Promise<void> {
+    try {
+      await this.redisService.del(PENDING_TX_PREFIX + executionId);
+    } catch (error) {
+      this.logger.warn(
+        `Failed to clear pending transaction for ${executionId}: ${(error as Error).message}`,
+      );
+    }
+  }
+}
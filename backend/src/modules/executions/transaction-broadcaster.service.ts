@@ -0,0 +1,183 @@
+/**
+ * Transaction Broadcaster Service
+ * Sends signed transactions to the source chain's RPC endpoint
+ */
+
+import { Injectable, Logger } from '@nestjs/common';
+import { ChainRpcService } from './chain-rpc.service';
+import { Chain, CHAIN_TYPES, ChainType } from '../../common/constants';
+import { BroadcastResult } from '../../common/interfaces';
+
+// Node responses meaning the transaction is already in the mempool or mined
+const ALREADY_KNOWN_ERRORS = [
+  'already known',
+  'known transaction',
+  'transaction already imported',
+  'already been processed',
+];
+
+// Node responses meaning the transaction will never be mined as signed
+const REJECTED_ERRORS = [
+  'insufficient funds',
+  'insufficient lamports',
+  'invalid sender',
+  'invalid signature',
+  'signature verification failure',
+  'invalid chain id',
+  'intrinsic gas too low',
+  'exceeds block gas limit',
+  'transaction underpriced',
+  'fee cap less than block base fee',
+  'max fee per gas less than block base fee',
+  'execution reverted',
+  'transaction simulation failed',
+  'attempt to debit an account but found no record of a prior credit',
+];
+
+@Injectable()
+export class TransactionBroadcasterService {
+  private readonly logger = new Logger(TransactionBroadcasterService.name);
+
+  constructor(private readonly chainRpc: ChainRpcService) {}
+
+  /**
+   * Broadcast a signed transaction. `transactionHash` is the hash derived
+   * from the payload and is always the one reported back.
+   */
+  async broadcast(
+    chain: string,
+    signedTransaction: string,
+    transactionHash: string,
+  ): Promise<BroadcastResult> {
+    const rpcUrl = this.chainRpc.getRpcUrl(chain);
+    if (!rpcUrl) {
+      return {
+        success: false,
+        transaction_hash: transactionHash,
+        error_code: 'rejected',
+        error_message: `No RPC endpoint configured for ${chain}`,
+      };
+    }
+
+    return CHAIN_TYPES[chain as Chain] === ChainType.SOLANA
+      ? this.broadcastSolana(rpcUrl, signedTransaction, transactionHash)
+      : this.broadcastEvm(rpcUrl, signedTransaction, transactionHash);
+  }
+
+  private async broadcastEvm(
+    rpcUrl: string,
+    rawTransaction: string,
+    transactionHash: string,
+  ): Promise<BroadcastResult> {
+    try {
+      const response = await this.chainRpc.call<string>(
+        rpcUrl,
+        'eth_sendRawTransaction',
+        [rawTransaction],
+      );
+
+      if (!response.error) {
+        return { success: true, transaction_hash: transactionHash };
+      }
+
+      const message = response.error.message;
+      if (this.isAlreadyKnown(message)) {
+        return {
+          success: true,
+          transaction_hash: transactionHash,
+          already_known: true,
+        };
+      }
+
+      // A retried submission of a mined tx also reports nonce too low
+      if (message.toLowerCase().includes('nonce too low')) {
+        const existing = await this.chainRpc.call<unknown>(
+          rpcUrl,
+          'eth_getTransactionByHash',
+          [transactionHash],
+        );
+        if (existing.result) {
+          return {
+            success: true,
+            transaction_hash: transactionHash,
+            already_known: true,
+          };
+        }
+        return {
+          success: false,
+          transaction_hash: transactionHash,
+          error_code: 'nonce_too_low',
+          error_message: message,
+        };
+      }
+
+      return {
+        success: false,
+        transaction_hash: transactionHash,
+        error_code: this.isRejected(message) ? 'rejected' : 'rpc_error',
+        error_message: message,
+      };
+    } catch (error) {
+      this.logger.error(`EVM broadcast error: ${(error as Error).message}`);
+      return {
+        success: false,
+        transaction_hash: transactionHash,
+        error_code: 'rpc_error',
+        error_message: (error as Error).message,
+      };
+    }
+  }
+
+  private async broadcastSolana(
+    rpcUrl: string,
+    serializedTransaction: string,
+    signature: string,
+  ): Promise<BroadcastResult> {
+    try {
+      await this.chainRpc
+        .getSolanaConnection(rpcUrl)
+        .sendRawTransaction(Buffer.from(serializedTransaction, 'base64'), {
+          maxRetries: 3,
+        });
+      return { success: true, transaction_hash: signature };
+    } catch (error) {
+      const message = (error as Error).message;
+
+      if (this.isAlreadyKnown(message)) {
+        return {
+          success: true,
+          transaction_hash: signature,
+          already_known: true,
+        };
+      }
+
+      // The wallet has to re-sign against a fresh blockhash
+      if (/blockhash not found|block height exceeded/i.test(message)) {
+        return {
+          success: false,
+          transaction_hash: signature,
+          error_code: 'blockhash_expired',
+          error_message: message,
+        };
+      }
+
+      this.logger.error(`Solana broadcast error: ${message}`);
+      return {
+        success: false,
+        transaction_hash: signature,
+        error_code: this.isRejected(message) ? 'rejected' : 'rpc_error',
+        error_message: message,
+      };
+    }
+  }
+
+  private isAlreadyKnown(message: string): boolean {
+    const normalized = message.toLowerCase();
+    return ALREADY_KNOWN_ERRORS.some((known) => normalized.includes(known));
+  }
+
+  private isRejected(message: string): boolean {
+    const normalized = message.toLowerCase();
+    return REJECTED_ERRORS.some((rejected) => normalized.includes(rejected));
+  }
+}
@@ -0,0 +1,12 @@
+/**
+ * Bridge Provider Decorator
+ * Marks a ProviderConnector class for discovery by the ProviderRegistry
+ */
+
+import { DiscoveryService } from '@nestjs/core';
+
+/**
+ * Any provider decorated with @BridgeProvider() and registered in a module
+ * imported by ProvidersModule is picked up by ProviderRegistry at startup.
+ */
+export const BridgeProvider = DiscoveryService.createDecorator<void>();
@@ -0,0 +1,14 @@
+/**
+ * ChangeNOW Module
+ * Registers the ChangeNOW connector with the provider registry
+ */
+
+import { Module } from '@nestjs/common';
+import { ChangenowService } from './changenow.service';
+import { AppConfigService } from '../../../config/app-config.service';
+
+@Module({
+  providers: [AppConfigService, ChangenowService],
+  exports: [ChangenowService],
+})
+export class ChangenowModule {}
@@ -16,6 +16,7 @@ import {
 } from '../../../common/interfaces';
 import { Provider } from '../../../common/constants';
 import { AppConfigService } from '../../../config/app-config.service';
+import { BridgeProvider } from '../bridge-provider.decorator';
 
 interface ChangeNowEstimate {
   fromCurrency: string;
@@ -40,6 +41,7 @@ interface ChangeNowExchange {
   amountExpectedTo: string;
 }
 
+@BridgeProvider()
 @Injectable()
 export class ChangenowService implements ProviderConnector {
   readonly name = Provider.CHANGENOW;
@@ -61,7 +63,7 @@ export class ChangenowService implements ProviderConnector {
 
     this.client = axios.create({
       baseURL: 'https://api.changenow.io/v2',
-      timeout: 8000,
+      timeout: this.configService.getProviderConfig(this.name).timeout_ms,
       headers: {
         'x-changenow-api-key': this.apiKey,
         'Content-Type': 'application/json',
@@ -69,7 +71,10 @@ export class ChangenowService implements ProviderConnector {
     });
   }
 
-  async getQuote(params: QuoteParams): Promise<NormalizedRoute> {
+  async getQuote(
+    params: QuoteParams,
+    signal?: AbortSignal,
+  ): Promise<NormalizedRoute> {
     try {
       const fromCurrency = this.mapTokenToCurrency(
         params.source_token,
@@ -93,6 +98,7 @@ export class ChangenowService implements ProviderConnector {
             fromAmount: this.formatAmount(params.amount, params.source_chain),
             flow: 'standard',
           },
+          signal,
         },
       );
 
@@ -120,14 +126,17 @@ export class ChangenowService implements ProviderConnector {
    * Returns the deposit address (payinAddress) where the user must send funds,
    * plus the exchange ID for status tracking.
    */
-  async createExchange(params: {
-    fromCurrency: string;
-    toCurrency: string;
-    fromNetwork?: string;
-    toNetwork?: string;
-    fromAmount: string;
-    payoutAddress: string;
-  }): Promise<{
+  async createExchange(
+    params: {
+      fromCurrency: string;
+      toCurrency: string;
+      fromNetwork?: string;
+      toNetwork?: string;
+      fromAmount: string;
+      payoutAddress: string;
+    },
+    signal?: AbortSignal,
+  ): Promise<{
     id: string;
     payinAddress: string;
     fromCurrency: string;
@@ -162,7 +171,7 @@ export class ChangenowService implements ProviderConnector {
       amountExpectedTo: string;
       payoutAddress: string;
       validUntil?: string;
-    }>('/exchange', body);
+    }>('/exchange', body, { signal });
 
     const d = response.data;
     return {
@@ -185,8 +194,11 @@ export class ChangenowService implements ProviderConnector {
     throw new Error('Use createExchange() for ChangeNOW transactions');
   }
 
-  async getStatus(transactionHash: string): Promise<ExecutionStatusUpdate> {
-    const detail = await this.getExchangeDetail(transactionHash);
+  async getStatus(
+    transactionHash: string,
+    signal?: AbortSignal,
+  ): Promise<ExecutionStatusUpdate> {
+    const detail = await this.getExchangeDetail(transactionHash, signal);
     return {
       execution_id: transactionHash,
       status: this.mapStatus(detail.status),
@@ -199,7 +211,10 @@ export class ChangenowService implements ProviderConnector {
    * Returns full exchange detail including payoutHash (confirmed tx hash)
    * which is populated once the exchange reaches "sending" or "finished" state.
    */
-  async getExchangeDetail(exchangeId: string): Promise<{
+  async getExchangeDetail(
+    exchangeId: string,
+    signal?: AbortSignal,
+  ): Promise<{
     id: string;
     status: string;
     payinHash?: string;
@@ -223,7 +238,7 @@ export class ChangenowService implements ProviderConnector {
         fromAmount?: string;
         toAmount?: string;
         payoutAddress: string;
-      }>(`/exchange/by-id?id=${exchangeId}`);
+      }>(`/exchange/by-id?id=${exchangeId}`, { signal });
 
       const d = response.data;
       return {
@@ -243,11 +258,11 @@ export class ChangenowService implements ProviderConnector {
     }
   }
 
-  async healthCheck(): Promise<ProviderHealthStatus> {
+  async healthCheck(signal?: AbortSignal): Promise<ProviderHealthStatus> {
     const startTime = Date.now();
     try {
       // Check available currencies
-      await this.client.get('/exchange/currencies?active=true');
+      await this.client.get('/exchange/currencies?active=true', { signal });
       const responseTime = Date.now() - startTime;
 
       return {
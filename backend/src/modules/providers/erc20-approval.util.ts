@@ -0,0 +1,42 @@
+/**
+ * ERC-20 Approval Helper
+ * Encodes approve(spender, amount) calls shared by EVM connectors
+ */
+
+import { TransactionData } from '../../common/interfaces';
+
+const NATIVE_TOKEN_ADDRESSES = [
+  '0x0000000000000000000000000000000000000000',
+  '0xeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeee',
+];
+const ERC20_APPROVE_SELECTOR = '0x095ea7b3';
+const APPROVAL_GAS_LIMIT = '60000';
+
+/**
+ * Build an approval for `spender`, or undefined when the token is native
+ * or not an EVM address. Wallets may skip it if the allowance already
+ * covers the amount.
+ */
+export function buildErc20Approval(
+  token: string,
+  spender: string | undefined,
+  amount: string | bigint,
+): TransactionData | undefined {
+  if (
+    !spender ||
+    !token.startsWith('0x') ||
+    NATIVE_TOKEN_ADDRESSES.includes(token.toLowerCase())
+  ) {
+    return undefined;
+  }
+
+  const encodedSpender = spender.slice(2).toLowerCase().padStart(64, '0');
+  const encodedAmount = BigInt(amount).toString(16).padStart(64, '0');
+
+  return {
+    to: token,
+    data: `${ERC20_APPROVE_SELECTOR}${encodedSpender}${encodedAmount}`,
+    value: '0',
+    gas_limit: APPROVAL_GAS_LIMIT,
+  };
+}
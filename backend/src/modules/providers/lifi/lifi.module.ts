@@ -0,0 +1,16 @@
+/**
+ * LI.FI Module
+ * Registers the LI.FI connector with the provider registry
+ */
+
+import { Module } from '@nestjs/common';
+import { LifiService } from './lifi.service';
+import { RouteStoreModule } from '../route-store.module';
+import { AppConfigService } from '../../../config/app-config.service';
+
+@Module({
+  imports: [RouteStoreModule],
+  providers: [AppConfigService, LifiService],
+  exports: [LifiService],
+})
+export class LifiModule {}
@@ -4,7 +4,14 @@
  */
 
 import { Injectable, Logger } from '@nestjs/common';
-import { createConfig, getRoutes, Route, RouteOptions } from '@lifi/sdk';
+import axios, { AxiosInstance } from 'axios';
+import {
+  createConfig,
+  getRoutes,
+  getStepTransaction,
+  Route,
+  RouteOptions,
+} from '@lifi/sdk';
 import {
   ProviderConnector,
   ProviderHealthStatus,
@@ -12,11 +19,31 @@ import {
   NormalizedRoute,
   QuoteParams,
   TransactionRequest,
+  ExecutionStatus,
   ExecutionStatusUpdate,
 } from '../../../common/interfaces';
-import { Provider } from '../../../common/constants';
+import { ChainType, Provider } from '../../../common/constants';
 import { AppConfigService } from '../../../config/app-config.service';
+import { BridgeProvider } from '../bridge-provider.decorator';
+import { RouteStoreService } from '../route-store.service';
+import { buildErc20Approval } from '../erc20-approval.util';
+
+// Placeholder senders used for quote-only requests (Solana vs EVM format)
+const QUOTE_ADDRESS_SOLANA = '9CkiC555BUW6R8T7eoRPETzg47Ck3Z4qNUGEXyvs6B4F';
+const QUOTE_ADDRESS_EVM = '0xd8dA6BF26964aF9D7eEd9e03E53415D37aA96045';
+
+/**
+ * Subset of the LI.FI /status response used for tracking
+ */
+interface LifiStatusResponse {
+  status: string;
+  substatus?: string;
+  substatusMessage?: string;
+  sending?: { txHash?: string };
+  receiving?: { txHash?: string; amount?: string };
+}
 
+@BridgeProvider()
 @Injectable()
 export class LifiService implements ProviderConnector {
   readonly name = Provider.LIFI;
@@ -32,8 +59,19 @@ export class LifiService implements ProviderConnector {
   ];
 
   private readonly logger = new Logger(LifiService.name);
+  private readonly statusClient: AxiosInstance;
+
+  constructor(
+    private readonly configService: AppConfigService,
+    private readonly routeStore: RouteStoreService,
+  ) {
+    const apiKeys = this.configService.getApiKeys();
+    this.statusClient = axios.create({
+      baseURL: this.configService.getBridgeStatusApis().lifi,
+      timeout: this.configService.getProviderConfig(this.name).timeout_ms,
+      headers: apiKeys.lifi ? { 'x-lifi-api-key': apiKeys.lifi } : {},
+    });
 
-  constructor(private readonly configService: AppConfigService) {
     // NOTE:
     // In some restricted environments (like local sandboxes without external DNS),
     // eagerly initializing the LI.FI SDK with createConfig can trigger a background
@@ -51,13 +89,16 @@ export class LifiService implements ProviderConnector {
     // });
   }
 
-  async getQuote(params: QuoteParams): Promise<NormalizedRoute> {
+  async getQuote(
+    params: QuoteParams,
+    signal?: AbortSignal,
+  ): Promise<NormalizedRoute> {
     try {
       // Use a valid dummy address for quote-only (Solana vs EVM format)
       const dummyAddress =
         params.source_chain === 'solana'
-          ? '9CkiC555BUW6R8T7eoRPETzg47Ck3Z4qNUGEXyvs6B4F'
-          : '0xd8dA6BF26964aF9D7eEd9e03E53415D37aA96045';
+          ? QUOTE_ADDRESS_SOLANA
+          : QUOTE_ADDRESS_EVM;
 
       const routeOptions: any = {
         fromChainId: this.getChainId(params.source_chain),
@@ -72,7 +113,7 @@ export class LifiService implements ProviderConnector {
         },
       };
 
-      const result = await getRoutes(routeOptions);
+      const result = await getRoutes(routeOptions, { signal });
 
       if (!result.routes || result.routes.length === 0) {
         throw new Error('No routes found from LI.FI');
@@ -90,46 +131,135 @@ export class LifiService implements ProviderConnector {
   async buildTransaction(
     routeId: string,
     userWallet: string,
+    destinationWallet?: string,
+    signal?: AbortSignal,
   ): Promise<TransactionRequest> {
     try {
-      // In production, retrieve route from database using routeId
-      // For now, we'll need to re-fetch or use cached route data
-      throw new Error(
-        'buildTransaction requires route data from cache/database',
+      const stored = await this.routeStore.getRoute(routeId);
+      if (!stored || stored.provider !== (this.name as string)) {
+        throw new Error(`LI.FI route ${routeId} not found or expired`);
+      }
+
+      // Only the first step can be prepared up front — later steps of a
+      // multi-step route depend on the outcome of the previous one
+      const route = stored.raw_provider_data as Route;
+      const [firstStep] = route.steps;
+      const step = await getStepTransaction(
+        {
+          ...firstStep,
+          action: {
+            ...firstStep.action,
+            fromAddress: userWallet,
+            toAddress: this.resolveRecipient(
+              firstStep.action.toAddress,
+              destinationWallet ?? userWallet,
+            ),
+          },
+        },
+        { signal },
       );
+
+      if (!step.transactionRequest) {
+        throw new Error('LI.FI returned no transaction request');
+      }
+
+      const tx = step.transactionRequest;
+
+      // Solana sources come back as a base64 serialized transaction in `data`
+      if (stored.source_chain === 'solana') {
+        return {
+          route_id: routeId,
+          user_wallet: userWallet,
+          chain_id: String(step.action.fromChainId),
+          chain_type: ChainType.SOLANA,
+          slippage_tolerance: stored.slippage_tolerance,
+          solana_transaction: { serialized_transaction: tx.data ?? '' },
+        };
+      }
+
+      return {
+        route_id: routeId,
+        user_wallet: userWallet,
+        chain_id: String(step.action.fromChainId),
+        chain_type: ChainType.EVM,
+        slippage_tolerance: stored.slippage_tolerance,
+        transaction_data: {
+          to: tx.to ?? '',
+          data: tx.data ?? '0x',
+          value: this.toDecimalString(tx.value),
+          gas_limit: this.toDecimalString(tx.gasLimit),
+          gas_price: tx.gasPrice
+            ? this.toDecimalString(tx.gasPrice)
+            : undefined,
+        },
+        approval_data: buildErc20Approval(
+          step.action.fromToken.address,
+          step.estimate.approvalAddress,
+          step.action.fromAmount,
+        ),
+      };
     } catch (error) {
       this.logger.error(`LI.FI build transaction error: ${error.message}`);
       throw error;
     }
   }
 
-  async getStatus(transactionHash: string): Promise<ExecutionStatusUpdate> {
+  async getStatus(
+    transactionHash: string,
+    signal?: AbortSignal,
+  ): Promise<ExecutionStatusUpdate> {
     try {
-      // LI.FI status tracking would go here
-      // For now, return pending status
+      const response = await this.statusClient.get<LifiStatusResponse>(
+        '/status',
+        { params: { txHash: transactionHash }, signal },
+      );
+      const data = response.data;
+
       return {
         execution_id: transactionHash,
-        status: 'pending',
-        transaction_hash: transactionHash,
+        status: this.mapStatus(data.status, data.substatus),
+        transaction_hash: data.sending?.txHash ?? transactionHash,
+        source_transaction_hash: data.sending?.txHash ?? transactionHash,
+        destination_transaction_hash: data.receiving?.txHash,
+        received_amount: data.receiving?.amount,
+        substatus: data.substatus,
+        error_message:
+          data.status === 'FAILED' || data.status === 'INVALID'
+            ? data.substatusMessage
+            : undefined,
         timestamp: new Date(),
       };
     } catch (error) {
+      // LI.FI answers 404 until it has indexed the source transaction
+      if (axios.isAxiosError(error) && error.response?.status === 404) {
+        return {
+          execution_id: transactionHash,
+          status: 'pending',
+          transaction_hash: transactionHash,
+          source_transaction_hash: transactionHash,
+          substatus: 'NOT_FOUND',
+          timestamp: new Date(),
+        };
+      }
       this.logger.error(`LI.FI status check error: ${error.message}`);
       throw error;
     }
   }
 
-  async healthCheck(): Promise<ProviderHealthStatus> {
+  async healthCheck(signal?: AbortSignal): Promise<ProviderHealthStatus> {
     const startTime = Date.now();
     try {
       // Simple health check - test API availability
-      await getRoutes({
-        fromChainId: 1,
-        toChainId: 137,
-        fromTokenAddress: '0x0000000000000000000000000000000000000000',
-        toTokenAddress: '0x0000000000000000000000000000000000000000',
-        fromAmount: '1000000000000000000',
-      });
+      await getRoutes(
+        {
+          fromChainId: 1,
+          toChainId: 137,
+          fromTokenAddress: '0x0000000000000000000000000000000000000000',
+          toTokenAddress: '0x0000000000000000000000000000000000000000',
+          fromAmount: '1000000000000000000',
+        },
+        { signal },
+      );
       const responseTime = Date.now() - startTime;
 
       return {
@@ -200,6 +330,7 @@ export class LifiService implements ProviderConnector {
       destination_token: params.destination_token,
       input_amount: params.amount,
       output_amount: route.toAmount,
+      destination_token_decimals: route.toToken.decimals,
       total_fee: {
         network_fee: totalFee.toString(),
         bridge_fee: '0',
@@ -222,8 +353,35 @@ export class LifiService implements ProviderConnector {
     return 'high';
   }
 
-  private mapStatus(lifiStatus: string): any {
-    const statusMap: Record<string, string> = {
+  /**
+   * Replace the quote-only placeholder recipient with the executing wallet
+   */
+  private resolveRecipient(
+    toAddress: string | undefined,
+    userWallet: string,
+  ): string {
+    if (
+      !toAddress ||
+      toAddress === QUOTE_ADDRESS_EVM ||
+      toAddress === QUOTE_ADDRESS_SOLANA
+    ) {
+      return userWallet;
+    }
+    return toAddress;
+  }
+
+  /**
+   * LI.FI returns hex quantities (e.g. "0x2386f26fc10000")
+   */
+  private toDecimalString(value?: string): string {
+    return value ? BigInt(value).toString() : '0';
+  }
+
+  private mapStatus(lifiStatus: string, substatus?: string): ExecutionStatus {
+    // DONE + REFUNDED means the user got their funds back on the source chain
+    if (lifiStatus === 'DONE' && substatus === 'REFUNDED') return 'failed';
+
+    const statusMap: Record<string, ExecutionStatus> = {
       NOT_FOUND: 'pending',
       INVALID: 'failed',
       PENDING: 'pending',
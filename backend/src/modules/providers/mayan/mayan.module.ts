@@ -0,0 +1,16 @@
+/**
+ * Mayan Module
+ * Registers the Mayan connector with the provider registry
+ */
+
+import { Module } from '@nestjs/common';
+import { MayanService } from './mayan.service';
+import { RouteStoreModule } from '../route-store.module';
+import { AppConfigService } from '../../../config/app-config.service';
+
+@Module({
+  imports: [RouteStoreModule],
+  providers: [AppConfigService, MayanService],
+  exports: [MayanService],
+})
+export class MayanModule {}
@@ -4,7 +4,20 @@
  */
 
 import { Injectable, Logger } from '@nestjs/common';
-import { fetchQuote, Quote } from '@mayanfinance/swap-sdk';
+import axios, { AxiosInstance } from 'axios';
+import {
+  createSwapFromSolanaInstructions,
+  fetchQuote,
+  getSwapFromEvmTxPayload,
+  Quote,
+} from '@mayanfinance/swap-sdk';
+import {
+  Connection,
+  TransactionMessage,
+  VersionedTransaction,
+  PublicKey,
+} from '@solana/web3.js';
+import { resolveAddress } from 'ethers';
 import {
   ProviderConnector,
   ProviderHealthStatus,
@@ -12,11 +25,35 @@ import {
   NormalizedRoute,
   QuoteParams,
   TransactionRequest,
+  ExecutionStatus,
   ExecutionStatusUpdate,
 } from '../../../common/interfaces';
-import { Provider } from '../../../common/constants';
+import {
+  Chain,
+  CHAIN_IDS,
+  CHAIN_TYPES,
+  ChainType,
+  Provider,
+} from '../../../common/constants';
 import { AppConfigService } from '../../../config/app-config.service';
+import { BridgeProvider } from '../bridge-provider.decorator';
+import { RouteStoreService } from '../route-store.service';
+import { buildErc20Approval } from '../erc20-approval.util';
+
+/**
+ * Subset of the Mayan explorer swap response used for tracking
+ */
+interface MayanSwapStatusResponse {
+  status: string;
+  clientStatus: 'INPROGRESS' | 'COMPLETED' | 'REFUNDED';
+  sourceTxHash?: string;
+  fulfillTxHash?: string;
+  redeemTxHash?: string;
+  refundTxHash?: string;
+  toAmount?: string;
+}
 
+@BridgeProvider()
 @Injectable()
 export class MayanService implements ProviderConnector {
   readonly name = Provider.MAYAN;
@@ -30,8 +67,22 @@ export class MayanService implements ProviderConnector {
   ];
 
   private readonly logger = new Logger(MayanService.name);
+  private readonly solanaConnection: Connection;
+  private readonly explorerClient: AxiosInstance;
 
-  constructor(private readonly configService: AppConfigService) {}
+  constructor(
+    private readonly configService: AppConfigService,
+    private readonly routeStore: RouteStoreService,
+  ) {
+    this.explorerClient = axios.create({
+      baseURL: this.configService.getBridgeStatusApis().mayanExplorer,
+      timeout: this.configService.getProviderConfig(this.name).timeout_ms,
+    });
+    this.solanaConnection = new Connection(
+      this.configService.getRpcEndpoints().solana.mainnet,
+      'confirmed',
+    );
+  }
 
   private getTokenDecimals(token: string, chain: string): number {
     // Known token decimals
@@ -82,30 +133,85 @@ export class MayanService implements ProviderConnector {
   async buildTransaction(
     routeId: string,
     userWallet: string,
+    destinationWallet?: string,
   ): Promise<TransactionRequest> {
     try {
-      // Mayan transactions require the full quote context
-      // In production, retrieve from cache/database
-      throw new Error(
-        'buildTransaction requires quote data from cache/database',
-      );
+      const stored = await this.routeStore.getRoute(routeId);
+      if (!stored || stored.provider !== (this.name as string)) {
+        throw new Error(`Mayan route ${routeId} not found or expired`);
+      }
+
+      const quote = stored.raw_provider_data as Quote;
+      const sourceType = CHAIN_TYPES[stored.source_chain as Chain];
+      const destinationType = CHAIN_TYPES[stored.destination_chain as Chain];
+
+      // A Solana wallet cannot receive on an EVM chain (and vice versa)
+      if (!destinationWallet && sourceType !== destinationType) {
+        throw new Error(
+          `Destination wallet is required for ${stored.source_chain} -> ${stored.destination_chain}`,
+        );
+      }
+      const recipient = destinationWallet ?? userWallet;
+
+      return sourceType === ChainType.SOLANA
+        ? await this.buildSolanaTransaction(
+            routeId,
+            quote,
+            userWallet,
+            recipient,
+            stored.slippage_tolerance,
+          )
+        : await this.buildEvmTransaction(
+            routeId,
+            quote,
+            userWallet,
+            recipient,
+            stored.source_chain as Chain,
+            stored.slippage_tolerance,
+          );
     } catch (error) {
       this.logger.error(`Mayan build transaction error: ${error.message}`);
       throw error;
     }
   }
 
-  async getStatus(transactionHash: string): Promise<ExecutionStatusUpdate> {
+  async getStatus(
+    transactionHash: string,
+    signal?: AbortSignal,
+  ): Promise<ExecutionStatusUpdate> {
     try {
-      // Mayan uses their own status tracking system
-      // Would need to integrate with Mayan's status API
+      const response = await this.explorerClient.get<MayanSwapStatusResponse>(
+        `/swap/trx/${transactionHash}`,
+        { signal },
+      );
+      const swap = response.data;
+      const status = this.mapStatus(swap.clientStatus);
+
       return {
         execution_id: transactionHash,
-        status: 'pending',
-        transaction_hash: transactionHash,
+        status,
+        transaction_hash: swap.sourceTxHash ?? transactionHash,
+        source_transaction_hash: swap.sourceTxHash ?? transactionHash,
+        destination_transaction_hash:
+          swap.fulfillTxHash ?? swap.redeemTxHash ?? swap.refundTxHash,
+        received_amount: status === 'success' ? swap.toAmount : undefined,
+        substatus: swap.status,
+        error_message:
+          swap.clientStatus === 'REFUNDED' ? 'Swap refunded' : undefined,
         timestamp: new Date(),
       };
     } catch (error) {
+      // The explorer answers 404 until it has indexed the source transaction
+      if (axios.isAxiosError(error) && error.response?.status === 404) {
+        return {
+          execution_id: transactionHash,
+          status: 'pending',
+          transaction_hash: transactionHash,
+          source_transaction_hash: transactionHash,
+          substatus: 'NOT_FOUND',
+          timestamp: new Date(),
+        };
+      }
       this.logger.error(`Mayan status check error: ${error.message}`);
       throw error;
     }
@@ -163,6 +269,112 @@ export class MayanService implements ProviderConnector {
     };
   }
 
+  /**
+   * Compile the swap instructions into an unsigned v0 transaction.
+   * Ephemeral signers required by the program are applied here so the
+   * wallet only has to add the fee payer signature.
+   */
+  private async buildSolanaTransaction(
+    routeId: string,
+    quote: Quote,
+    userWallet: string,
+    recipient: string,
+    slippageTolerance: number,
+  ): Promise<TransactionRequest> {
+    const { instructions, signers, lookupTables } =
+      await createSwapFromSolanaInstructions(
+        quote,
+        userWallet,
+        recipient,
+        null,
+        this.solanaConnection,
+      );
+
+    const { blockhash, lastValidBlockHeight } =
+      await this.solanaConnection.getLatestBlockhash();
+
+    const message = new TransactionMessage({
+      payerKey: new PublicKey(userWallet),
+      recentBlockhash: blockhash,
+      instructions,
+    }).compileToV0Message(lookupTables);
+
+    const transaction = new VersionedTransaction(message);
+    if (signers.length > 0) {
+      transaction.sign(signers);
+    }
+
+    return {
+      route_id: routeId,
+      user_wallet: userWallet,
+      chain_id: String(CHAIN_IDS[Chain.SOLANA]),
+      chain_type: ChainType.SOLANA,
+      slippage_tolerance: slippageTolerance,
+      solana_transaction: {
+        serialized_transaction: Buffer.from(transaction.serialize()).toString(
+          'base64',
+        ),
+        recent_blockhash: blockhash,
+        last_valid_block_height: lastValidBlockHeight,
+      },
+    };
+  }
+
+  private async buildEvmTransaction(
+    routeId: string,
+    quote: Quote,
+    userWallet: string,
+    recipient: string,
+    sourceChain: Chain,
+    slippageTolerance: number,
+  ): Promise<TransactionRequest> {
+    const chainId = CHAIN_IDS[sourceChain];
+    const tx = await getSwapFromEvmTxPayload(
+      quote,
+      userWallet,
+      recipient,
+      null,
+      userWallet,
+      chainId,
+      null,
+      null,
+    );
+
+    // AddressLike: resolve to a plain address string
+    const to = tx.to ? await resolveAddress(tx.to) : '';
+
+    return {
+      route_id: routeId,
+      user_wallet: userWallet,
+      chain_id: String(chainId),
+      chain_type: ChainType.EVM,
+      slippage_tolerance: slippageTolerance,
+      transaction_data: {
+        to,
+        data: tx.data ?? '0x',
+        value: tx.value ? BigInt(tx.value).toString() : '0',
+        gas_limit: tx.gasLimit ? BigInt(tx.gasLimit).toString() : '0',
+      },
+      // The Mayan forwarder pulls the input token, so it needs the allowance
+      approval_data: buildErc20Approval(
+        quote.fromToken.contract,
+        to,
+        quote.effectiveAmountIn64,
+      ),
+    };
+  }
+
+  private mapStatus(
+    clientStatus: MayanSwapStatusResponse['clientStatus'],
+  ): ExecutionStatus {
+    const statusMap: Record<string, ExecutionStatus> = {
+      INPROGRESS: 'pending',
+      COMPLETED: 'success',
+      REFUNDED: 'failed',
+    };
+    return statusMap[clientStatus] || 'pending';
+  }
+
   private normalizeRoute(quote: Quote, params: QuoteParams): NormalizedRoute {
     const steps = [
       {
@@ -186,6 +398,7 @@ export class MayanService implements ProviderConnector {
       destination_token: params.destination_token,
       input_amount: params.amount,
       output_amount: quote.expectedAmountOut.toString(),
+      destination_token_decimals: quote.toToken.decimals,
       total_fee: {
         network_fee: '5000',
         bridge_fee: '0',
@@ -0,0 +1,167 @@
+/**
+ * Provider Call Service
+ * Call policy applied to every connector request: shared rate limit,
+ * per-provider timeout (PROVIDER_TIMEOUTS) and retries with exponential
+ * backoff (PROVIDER_MAX_RETRIES) for retryable ProviderErrors, all within
+ * a total budget of MAX_CALL_TIMEOUTS timeouts
+ */
+
+import { Injectable, Logger } from '@nestjs/common';
+import { AppConfigService } from '../../config/app-config.service';
+import { ProviderConnector } from '../../common/interfaces';
+import { ProviderRateLimiterService } from './provider-rate-limiter.service';
+import { ProviderRequestError, toProviderError } from './provider-error.util';
+
+const BACKOFF_BASE_MS = 250;
+const BACKOFF_MAX_MS = 4000;
+const MAX_CALL_TIMEOUTS = 3;
+
+interface CallOptions {
+  retry?: boolean; // false for non-idempotent calls (e.g. creating an exchange)
+}
+
+@Injectable()
+export class ProviderCallService {
+  private readonly logger = new Logger(ProviderCallService.name);
+
+  constructor(
+    private readonly configService: AppConfigService,
+    private readonly rateLimiter: ProviderRateLimiterService,
+  ) {}
+
+  /**
+   * Run a provider request under the provider's call policy. `call` gets a
+   * signal that aborts when the attempt times out, so a retry never runs
+   * alongside the request it replaces. Failures are rethrown as
+   * ProviderRequestError.
+   */
+  async execute<T>(
+    connector: ProviderConnector,
+    operation: string,
+    call: (signal: AbortSignal) => Promise<T>,
+    options: CallOptions = {},
+  ): Promise<T> {
+    const config = this.configService.getProviderConfig(connector.name);
+    const retries = options.retry === false ? 0 : config.retry_attempts;
+    const deadline = Date.now() + this.getMaxCallDuration(connector.name);
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        await this.rateLimiter.acquire(
+          connector.name,
+          connector.getLimits(),
+          Math.min(config.timeout_ms, deadline - Date.now()),
+        );
+        return await this.withTimeout(
+          connector.name,
+          call,
+          Math.min(config.timeout_ms, deadline - Date.now()),
+        );
+      } catch (error) {
+        const providerError = toProviderError(connector.name, error);
+        const delay = this.getBackoff(attempt);
+        if (
+          !providerError.is_retryable ||
+          attempt >= retries ||
+          Date.now() + delay >= deadline
+        ) {
+          throw providerError;
+        }
+
+        this.logger.warn(
+          `${connector.name} ${operation} failed (${providerError.error_code}), retry ${attempt + 1}/${retries} in ${delay}ms`,
+        );
+        await new Promise((resolve) => setTimeout(resolve, delay));
+      }
+    }
+  }
+
+  /**
+   * Connector facade whose provider API calls run under the call policy.
+   * Health checks are limited and timed out but not retried, so failures
+   * still show up in health status.
+   */
+  wrap(connector: ProviderConnector): ProviderConnector {
+    return {
+      name: connector.name,
+      supportedChains: connector.supportedChains,
+      getQuote: (params) =>
+        this.execute(connector, 'getQuote', (signal) =>
+          connector.getQuote(params, signal),
+        ),
+      getQuotes: connector.getQuotes
+        ? (params) =>
+            this.execute(connector, 'getQuotes', (signal) =>
+              connector.getQuotes!(params, signal),
+            )
+        : undefined,
+      buildTransaction: (routeId, userWallet, destinationWallet) =>
+        this.execute(connector, 'buildTransaction', (signal) =>
+          connector.buildTransaction(
+            routeId,
+            userWallet,
+            destinationWallet,
+            signal,
+          ),
+        ),
+      getStatus: (transactionHash) =>
+        this.execute(connector, 'getStatus', (signal) =>
+          connector.getStatus(transactionHash, signal),
+        ),
+      healthCheck: () =>
+        this.execute(
+          connector,
+          'healthCheck',
+          (signal) => connector.healthCheck(signal),
+          { retry: false },
+        ),
+      supportsRoute: (sourceChain, destinationChain) =>
+        connector.supportsRoute(sourceChain, destinationChain),
+      getLimits: () => connector.getLimits(),
+    };
+  }
+
+  /**
+   * Total time a call may take, rate limit waits and retries included.
+   * Callers that hold locks around provider requests size them from this.
+   */
+  getMaxCallDuration(provider: string): number {
+    const config = this.configService.getProviderConfig(provider);
+    return config.timeout_ms * MAX_CALL_TIMEOUTS;
+  }
+
+  private async withTimeout<T>(
+    provider: string,
+    call: (signal: AbortSignal) => Promise<T>,
+    timeoutMs: number,
+  ): Promise<T> {
+    const controller = new AbortController();
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(
+        () => {
+          controller.abort();
+          reject(
+            new ProviderRequestError({
+              provider,
+              error_code: 'timeout',
+              error_message: `Timeout after ${timeoutMs}ms`,
+              is_retryable: true,
+            }),
+          );
+        },
+        Math.max(timeoutMs, 0),
+      );
+    });
+
+    try {
+      return await Promise.race([call(controller.signal), timeout]);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  private getBackoff(attempt: number): number {
+    return Math.min(BACKOFF_BASE_MS * 2 ** attempt, BACKOFF_MAX_MS);
+  }
+}
@@ -0,0 +1,104 @@
+import { ProviderCircuitBreakerService } from './provider-circuit-breaker.service';
+import { AppConfigService } from '../../config/app-config.service';
+import { CircuitState } from '../../common/constants';
+
+const FAILURE_THRESHOLD = 3;
+const OPEN_SECONDS = 30;
+
+describe('ProviderCircuitBreakerService', () => {
+  let breaker: ProviderCircuitBreakerService;
+  let now: number;
+
+  beforeEach(() => {
+    now = 1_700_000_000_000;
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+    const configService = {
+      getCircuitBreakerConfig: () => ({
+        failureThreshold: FAILURE_THRESHOLD,
+        openSeconds: OPEN_SECONDS,
+      }),
+    };
+    breaker = new ProviderCircuitBreakerService(
+      configService as unknown as AppConfigService,
+    );
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  function open(provider = 'lifi') {
+    for (let i = 0; i < FAILURE_THRESHOLD; i++) breaker.recordFailure(provider);
+  }
+
+  it('starts closed', () => {
+    expect(breaker.getState('lifi')).toBe(CircuitState.CLOSED);
+    expect(breaker.isAvailable('lifi')).toBe(true);
+  });
+
+  it('opens after the failure threshold of consecutive failures', () => {
+    breaker.recordFailure('lifi');
+    breaker.recordFailure('lifi');
+    expect(breaker.getState('lifi')).toBe(CircuitState.CLOSED);
+
+    breaker.recordFailure('lifi');
+    expect(breaker.getState('lifi')).toBe(CircuitState.OPEN);
+    expect(breaker.isAvailable('lifi')).toBe(false);
+  });
+
+  it('resets the failure count on success', () => {
+    breaker.recordFailure('lifi');
+    breaker.recordFailure('lifi');
+    breaker.recordSuccess('lifi');
+    breaker.recordFailure('lifi');
+    expect(breaker.getState('lifi')).toBe(CircuitState.CLOSED);
+  });
+
+  it('stays open when a health probe passes before the open period ends', () => {
+    open();
+    now += (OPEN_SECONDS - 1) * 1000;
+    breaker.recordHealthCheck('lifi', true);
+    expect(breaker.getState('lifi')).toBe(CircuitState.OPEN);
+  });
+
+  it('half-opens when a health probe passes after the open period', () => {
+    open();
+    now += OPEN_SECONDS * 1000;
+    breaker.recordHealthCheck('lifi', true);
+    expect(breaker.getState('lifi')).toBe(CircuitState.HALF_OPEN);
+    expect(breaker.isAvailable('lifi')).toBe(true);
+  });
+
+  it('closes from half-open on the next success', () => {
+    open();
+    now += OPEN_SECONDS * 1000;
+    breaker.recordHealthCheck('lifi', true);
+    breaker.recordSuccess('lifi');
+    expect(breaker.getState('lifi')).toBe(CircuitState.CLOSED);
+  });
+
+  it('re-opens from half-open on a single failure and restarts the open period', () => {
+    open();
+    now += OPEN_SECONDS * 1000;
+    breaker.recordHealthCheck('lifi', true);
+    breaker.recordFailure('lifi');
+    expect(breaker.getState('lifi')).toBe(CircuitState.OPEN);
+
+    now += (OPEN_SECONDS - 1) * 1000;
+    breaker.recordHealthCheck('lifi', true);
+    expect(breaker.getState('lifi')).toBe(CircuitState.OPEN);
+  });
+
+  it('counts failed health checks as failures', () => {
+    for (let i = 0; i < FAILURE_THRESHOLD; i++) {
+      breaker.recordHealthCheck('lifi', false);
+    }
+    expect(breaker.getState('lifi')).toBe(CircuitState.OPEN);
+  });
+
+  it('keeps circuits per provider', () => {
+    open('mayan');
+    expect(breaker.getStates()).toEqual({ mayan: CircuitState.OPEN });
+    expect(breaker.isAvailable('lifi')).toBe(true);
+  });
+});
@@ -0,0 +1,108 @@
+/**
+ * Provider Circuit Breaker Service
+ * Per-provider closed/open/half-open state, fed by live quote errors and
+ * the scheduled health checks. Open providers are left out of quote
+ * fan-out until a health check probe passes.
+ */
+
+import { Injectable, Logger } from '@nestjs/common';
+import { AppConfigService } from '../../config/app-config.service';
+import { CircuitState } from '../../common/constants';
+
+interface Circuit {
+  state: CircuitState;
+  consecutive_failures: number;
+  opened_at?: number;
+}
+
+@Injectable()
+export class ProviderCircuitBreakerService {
+  private readonly logger = new Logger(ProviderCircuitBreakerService.name);
+  private readonly circuits = new Map<string, Circuit>();
+
+  constructor(private readonly configService: AppConfigService) {}
+
+  /**
+   * Whether live requests may go to this provider
+   */
+  isAvailable(provider: string): boolean {
+    return this.getState(provider) !== CircuitState.OPEN;
+  }
+
+  getState(provider: string): CircuitState {
+    return this.circuits.get(provider)?.state ?? CircuitState.CLOSED;
+  }
+
+  getStates(): Record<string, CircuitState> {
+    return Object.fromEntries(
+      Array.from(this.circuits.entries()).map(([provider, circuit]) => [
+        provider,
+        circuit.state,
+      ]),
+    );
+  }
+
+  recordSuccess(provider: string): void {
+    const circuit = this.getCircuit(provider);
+    if (circuit.state !== CircuitState.CLOSED) {
+      this.logger.log(`Circuit closed for ${provider}`);
+    }
+    circuit.state = CircuitState.CLOSED;
+    circuit.consecutive_failures = 0;
+    circuit.opened_at = undefined;
+  }
+
+  recordFailure(provider: string): void {
+    const circuit = this.getCircuit(provider);
+    circuit.consecutive_failures++;
+
+    const { failureThreshold } = this.configService.getCircuitBreakerConfig();
+    if (
+      circuit.state === CircuitState.HALF_OPEN ||
+      circuit.consecutive_failures >= failureThreshold
+    ) {
+      if (circuit.state !== CircuitState.OPEN) {
+        this.logger.warn(
+          `Circuit opened for ${provider} after ${circuit.consecutive_failures} consecutive failures`,
+        );
+      }
+      circuit.state = CircuitState.OPEN;
+      circuit.opened_at = Date.now();
+    }
+  }
+
+  /**
+   * Scheduled health check result. This is the only way out of OPEN: a
+   * passing probe after the open period moves the circuit to HALF_OPEN,
+   * and the next live quote closes or re-opens it.
+   */
+  recordHealthCheck(provider: string, healthy: boolean): void {
+    if (!healthy) {
+      this.recordFailure(provider);
+      return;
+    }
+
+    const circuit = this.getCircuit(provider);
+    if (circuit.state !== CircuitState.OPEN) {
+      if (circuit.state === CircuitState.CLOSED) {
+        circuit.consecutive_failures = 0;
+      }
+      return;
+    }
+
+    const { openSeconds } = this.configService.getCircuitBreakerConfig();
+    if (Date.now() - (circuit.opened_at ?? 0) >= openSeconds * 1000) {
+      circuit.state = CircuitState.HALF_OPEN;
+      this.logger.log(`Circuit half-open for ${provider}, health probe passed`);
+    }
+  }
+
+  private getCircuit(provider: string): Circuit {
+    let circuit = this.circuits.get(provider);
+    if (!circuit) {
+      circuit = { state: CircuitState.CLOSED, consecutive_failures: 0 };
+      this.circuits.set(provider, circuit);
+    }
+    return circuit;
+  }
+}
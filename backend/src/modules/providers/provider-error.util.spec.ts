@@ -0,0 +1,77 @@
+import { AxiosError, AxiosResponse } from 'axios';
+import { ProviderRequestError, toProviderError } from './provider-error.util';
+
+function httpError(status: number, data: unknown = {}): AxiosError {
+  return new AxiosError(
+    `Request failed with status code ${status}`,
+    'ERR_BAD_RESPONSE',
+    undefined,
+    undefined,
+    { status, data } as AxiosResponse,
+  );
+}
+
+describe('toProviderError', () => {
+  it('retries rate limiting and server errors', () => {
+    expect(toProviderError('lifi', httpError(429))).toMatchObject({
+      error_code: 'rate_limited',
+      is_retryable: true,
+    });
+    expect(toProviderError('lifi', httpError(503))).toMatchObject({
+      error_code: 'http_503',
+      is_retryable: true,
+    });
+  });
+
+  it('does not retry client errors', () => {
+    expect(toProviderError('lifi', httpError(400))).toMatchObject({
+      error_code: 'http_400',
+      is_retryable: false,
+    });
+  });
+
+  it("prefers the provider's own error message", () => {
+    const error = toProviderError(
+      'changenow',
+      httpError(400, { message: 'Amount is less than minimal' }),
+    );
+    expect(error.message).toBe('Amount is less than minimal');
+    expect(error.provider).toBe('changenow');
+  });
+
+  it('retries dropped connections', () => {
+    const error = Object.assign(new Error('socket hang up'), {
+      code: 'ECONNRESET',
+    });
+    expect(toProviderError('mayan', error)).toMatchObject({
+      error_code: 'econnreset',
+      is_retryable: true,
+    });
+  });
+
+  it('reads the status of non-axios errors', () => {
+    const error = Object.assign(new Error('Too many requests'), {
+      status: 429,
+    });
+    expect(toProviderError('lifi', error).is_retryable).toBe(true);
+  });
+
+  it('treats anything else as a permanent provider error', () => {
+    expect(toProviderError('lifi', new Error('No route found'))).toMatchObject({
+      error_code: 'provider_error',
+      error_message: 'No route found',
+      is_retryable: false,
+    });
+    expect(toProviderError('lifi', 'boom').message).toBe('boom');
+  });
+
+  it('passes ProviderRequestErrors through unchanged', () => {
+    const error = new ProviderRequestError({
+      provider: 'lifi',
+      error_code: 'timeout',
+      error_message: 'Timeout after 10000ms',
+      is_retryable: true,
+    });
+    expect(toProviderError('lifi', error)).toBe(error);
+  });
+});
@@ -0,0 +1,79 @@
+/**
+ * Provider Error Helpers
+ * Classifies connector failures into the ProviderError shape so callers
+ * can tell transient errors (retried) from permanent ones
+ */
+
+import axios from 'axios';
+import { ProviderError } from '../../common/interfaces';
+
+const RETRYABLE_NETWORK_CODES = [
+  'ECONNRESET',
+  'ECONNREFUSED',
+  'ECONNABORTED',
+  'ETIMEDOUT',
+  'EAI_AGAIN',
+  'EPIPE',
+];
+
+/**
+ * Error thrown for failed provider calls. Keeps the original message so
+ * existing `error.message` handling is unchanged.
+ */
+export class ProviderRequestError extends Error implements ProviderError {
+  readonly provider: string;
+  readonly error_code: string;
+  readonly error_message: string;
+  readonly is_retryable: boolean;
+  readonly timestamp: Date;
+
+  constructor(details: Omit<ProviderError, 'timestamp'>) {
+    super(details.error_message);
+    this.name = ProviderRequestError.name;
+    this.provider = details.provider;
+    this.error_code = details.error_code;
+    this.error_message = details.error_message;
+    this.is_retryable = details.is_retryable;
+    this.timestamp = new Date();
+  }
+}
+
+/**
+ * Timeouts, rate limiting (429), 5xx responses and dropped connections are
+ * retryable; everything else (4xx, "no route", bad params) is not
+ */
+export function toProviderError(
+  provider: string,
+  error: unknown,
+): ProviderRequestError {
+  if (error instanceof ProviderRequestError) return error;
+
+  let message = (error as Error)?.message ?? String(error);
+  let status = (error as { status?: number })?.status;
+  if (axios.isAxiosError<{ message?: string }>(error)) {
+    // Prefer the provider's own explanation over axios' generic one
+    message = error.response?.data?.message || message;
+    status = error.response?.status;
+  }
+  const code = (error as { code?: string })?.code;
+
+  let errorCode = 'provider_error';
+  let isRetryable = false;
+  if (status === 429) {
+    errorCode = 'rate_limited';
+    isRetryable = true;
+  } else if (typeof status === 'number') {
+    errorCode = `http_${status}`;
+    isRetryable = status >= 500;
+  } else if (code && RETRYABLE_NETWORK_CODES.includes(code)) {
+    errorCode = code.toLowerCase();
+    isRetryable = true;
+  }
+
+  return new ProviderRequestError({
+    provider,
+    error_code: errorCode,
+    error_message: message,
+    is_retryable: isRetryable,
+  });
+}
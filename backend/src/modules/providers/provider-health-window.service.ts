@@ -0,0 +1,77 @@
+/**
+ * Provider Health Window Service
+ * Rolling window of response times and outcomes per provider, from health
+ * checks and live quotes, summarised as latency percentiles and error rate
+ */
+
+import { Injectable } from '@nestjs/common';
+import { AppConfigService } from '../../config/app-config.service';
+
+const MAX_SAMPLES = 1000; // Per provider, oldest dropped first
+
+interface Sample {
+  at: number;
+  response_time_ms: number;
+  success: boolean;
+}
+
+export interface ProviderWindowStats {
+  latency_ms: { p50: number; p95: number; p99: number };
+  error_rate: number;
+  sample_count: number;
+}
+
+@Injectable()
+export class ProviderHealthWindowService {
+  private readonly samples = new Map<string, Sample[]>();
+
+  constructor(private readonly configService: AppConfigService) {}
+
+  record(provider: string, responseTimeMs: number, success: boolean): void {
+    const samples = this.samples.get(provider) ?? [];
+    samples.push({
+      at: Date.now(),
+      response_time_ms: responseTimeMs,
+      success,
+    });
+    if (samples.length > MAX_SAMPLES) samples.shift();
+    this.samples.set(provider, samples);
+  }
+
+  getStats(provider: string): ProviderWindowStats {
+    const samples = this.prune(provider);
+    const latencies = samples
+      .map((sample) => sample.response_time_ms)
+      .sort((a, b) => a - b);
+    const failures = samples.filter((sample) => !sample.success).length;
+
+    return {
+      latency_ms: {
+        p50: this.percentile(latencies, 50),
+        p95: this.percentile(latencies, 95),
+        p99: this.percentile(latencies, 99),
+      },
+      error_rate: samples.length ? failures / samples.length : 0,
+      sample_count: samples.length,
+    };
+  }
+
+  private prune(provider: string): Sample[] {
+    const { windowSeconds } = this.configService.getProviderHealthThresholds();
+    const cutoff = Date.now() - windowSeconds * 1000;
+    const samples = (this.samples.get(provider) ?? []).filter(
+      (sample) => sample.at >= cutoff,
+    );
+    this.samples.set(provider, samples);
+    return samples;
+  }
+
+  /**
+   * Nearest-rank percentile of an ascending list (0 when empty)
+   */
+  private percentile(sorted: number[], p: number): number {
+    if (!sorted.length) return 0;
+    const rank = Math.ceil((p / 100) * sorted.length);
+    return sorted[Math.max(rank - 1, 0)];
+  }
+}
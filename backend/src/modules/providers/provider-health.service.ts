@@ -1,59 +1,104 @@
 /**
  * Provider Health Monitor Service
- * Tracks provider availability and performance
+ * Tracks provider availability and performance, classified as HEALTHY,
+ * DEGRADED or UNHEALTHY from rolling-window latency and error rate
  */
 
 import { Injectable, Logger } from '@nestjs/common';
 import { Cron, CronExpression } from '@nestjs/schedule';
-import { LifiService } from './lifi/lifi.service';
-import { MayanService } from './mayan/mayan.service';
-import { ChangenowService } from './changenow/changenow.service';
+import { ProviderRegistry } from './provider-registry.service';
+import { ProviderCircuitBreakerService } from './provider-circuit-breaker.service';
+import {
+  ProviderHealthWindowService,
+  ProviderWindowStats,
+} from './provider-health-window.service';
+import { ProviderUptimeService } from './provider-uptime.service';
 import { PrismaService } from '../../config/prisma.service';
+import { AppConfigService } from '../../config/app-config.service';
+import { MetricsService } from '../../common/metrics/metrics.service';
 import {
   ProviderConnector,
+  ProviderHealthReport,
   ProviderHealthStatus,
 } from '../../common/interfaces';
+import { CircuitState, HealthStatus } from '../../common/constants';
 
 @Injectable()
 export class ProviderHealthService {
   private readonly logger = new Logger(ProviderHealthService.name);
-  private providers: ProviderConnector[];
   private healthCache: Map<string, ProviderHealthStatus> = new Map();
 
   constructor(
-    private readonly lifiService: LifiService,
-    private readonly mayanService: MayanService,
-    private readonly changenowService: ChangenowService,
+    private readonly providerRegistry: ProviderRegistry,
     private readonly prismaService: PrismaService,
-  ) {
-    this.providers = [
-      this.lifiService,
-      this.mayanService,
-      this.changenowService,
-    ];
-  }
+    private readonly circuitBreaker: ProviderCircuitBreakerService,
+    private readonly healthWindow: ProviderHealthWindowService,
+    private readonly configService: AppConfigService,
+    private readonly uptimeService: ProviderUptimeService,
+    private readonly metrics: MetricsService,
+  ) {}
 
+  /**
+   * Also probes providers whose circuit is open, which is how they get
+   * back into quote fan-out
+   */
   @Cron(CronExpression.EVERY_MINUTE)
   async performHealthChecks() {
     this.logger.log('Running provider health checks...');
 
+    const providers = this.providerRegistry.getProviders();
+    const startTime = Date.now();
     const healthResults = await Promise.allSettled(
-      this.providers.map((provider) => provider.healthCheck()),
+      providers.map((provider) => provider.healthCheck()),
     );
 
     healthResults.forEach((result, index) => {
-      const providerName = this.providers[index].name;
+      const providerName = providers[index].name;
+
+      this.circuitBreaker.recordHealthCheck(
+        providerName,
+        result.status === 'fulfilled' && result.value.is_healthy,
+      );
 
       if (result.status === 'fulfilled') {
+        this.healthWindow.record(
+          providerName,
+          result.value.response_time_ms,
+          result.value.is_healthy,
+        );
         this.healthCache.set(providerName, result.value);
         this.logHealthStatus(result.value);
-        this.updateReliabilityMetrics(result.value);
+        void this.updateReliabilityMetrics(result.value);
       } else {
+        // Timed out or threw: record as unhealthy rather than keep the
+        // previous result
+        const health: ProviderHealthStatus = {
+          provider: providerName,
+          is_healthy: false,
+          response_time_ms: Date.now() - startTime,
+          last_checked: new Date(),
+          error_message: (result.reason as Error)?.message,
+        };
+        this.healthWindow.record(providerName, health.response_time_ms, false);
+        this.healthCache.set(providerName, health);
+        void this.updateReliabilityMetrics(health);
         this.logger.error(
-          `Health check failed for ${providerName}: ${result.reason?.message}`,
+          `Health check failed for ${providerName}: ${health.error_message}`,
         );
       }
     });
+
+    const results = providers
+      .map((provider) => this.healthCache.get(provider.name))
+      .filter((health): health is ProviderHealthStatus => !!health);
+    for (const health of results) {
+      this.metrics.recordHealthCheck(
+        health.provider,
+        health.response_time_ms,
+        health.is_healthy,
+      );
+    }
+    await this.uptimeService.recordChecks(results);
   }
 
   getHealthStatus(providerName: string): ProviderHealthStatus | null {
@@ -64,13 +109,82 @@ export class ProviderHealthService {
     return Array.from(this.healthCache.values());
   }
 
+  /**
+   * Health report for one enabled provider, or null if unknown/disabled
+   */
+  getHealthReport(providerName: string): ProviderHealthReport | null {
+    return this.providerRegistry.getProvider(providerName)
+      ? this.buildReport(providerName)
+      : null;
+  }
+
+  /**
+   * Health reports for all enabled providers, in priority order
+   */
+  getHealthReports(): ProviderHealthReport[] {
+    return this.providerRegistry
+      .getProviders()
+      .map((provider) => this.buildReport(provider.name));
+  }
+
   getHealthyProviders(): ProviderConnector[] {
-    return this.providers.filter((provider) => {
+    return this.providerRegistry.getProviders().filter((provider) => {
       const health = this.healthCache.get(provider.name);
       return health?.is_healthy === true;
     });
   }
 
+  private buildReport(providerName: string): ProviderHealthReport {
+    const health = this.healthCache.get(providerName);
+    const stats = this.healthWindow.getStats(providerName);
+    const circuitState = this.circuitBreaker.getState(providerName);
+
+    return {
+      provider: providerName,
+      status: this.classify(health, stats, circuitState),
+      is_healthy: health?.is_healthy ?? false,
+      last_checked: health?.last_checked,
+      error_message: health?.error_message,
+      latency_ms: stats.latency_ms,
+      error_rate: stats.error_rate,
+      sample_count: stats.sample_count,
+      circuit_state: circuitState,
+    };
+  }
+
+  /**
+   * UNHEALTHY: latest check failed, circuit open, or a threshold breached.
+   * DEGRADED: slow or erroring above the degraded thresholds, or still
+   * proving itself after an open circuit.
+   */
+  private classify(
+    health: ProviderHealthStatus | undefined,
+    stats: ProviderWindowStats,
+    circuitState: CircuitState,
+  ): HealthStatus {
+    if (!health && stats.sample_count === 0) return HealthStatus.UNKNOWN;
+
+    const thresholds = this.configService.getProviderHealthThresholds();
+    if (
+      health?.is_healthy === false ||
+      circuitState === CircuitState.OPEN ||
+      stats.error_rate >= thresholds.unhealthyErrorRate ||
+      stats.latency_ms.p95 >= thresholds.unhealthyP95Ms
+    ) {
+      return HealthStatus.UNHEALTHY;
+    }
+
+    if (
+      circuitState === CircuitState.HALF_OPEN ||
+      stats.error_rate >= thresholds.degradedErrorRate ||
+      stats.latency_ms.p95 >= thresholds.degradedP95Ms
+    ) {
+      return HealthStatus.DEGRADED;
+    }
+
+    return HealthStatus.HEALTHY;
+  }
+
   private logHealthStatus(health: ProviderHealthStatus) {
     const emoji = health.is_healthy ? '✅' : '❌';
     this.logger.log(
@@ -0,0 +1,102 @@
+/**
+ * Provider Rate Limiter
+ * Redis token buckets shared by all instances, one per-second and one
+ * per-minute bucket per provider, sized from the connector's getLimits()
+ */
+
+import { Injectable, Logger } from '@nestjs/common';
+import { RedisService } from '../../config/redis.service';
+import { ProviderLimits } from '../../common/interfaces';
+import { ProviderRequestError } from './provider-error.util';
+
+const BUCKET_PREFIX = 'ratelimit:provider:';
+
+// Takes a token from every bucket, or from none. Returns 0 when granted,
+// otherwise the milliseconds until all buckets have a token.
+// KEYS: bucket keys. ARGV: capacity and refill per ms, for each bucket.
+const TAKE_TOKEN_SCRIPT = `
+local time = redis.call('TIME')
+local now = tonumber(time[1]) * 1000 + math.floor(tonumber(time[2]) / 1000)
+local tokens = {}
+local wait = 0
+for i, key in ipairs(KEYS) do
+  local capacity = tonumber(ARGV[i * 2 - 1])
+  local rate = tonumber(ARGV[i * 2])
+  local state = redis.call('HMGET', key, 'tokens', 'ts')
+  local available = tonumber(state[1]) or capacity
+  local ts = tonumber(state[2]) or now
+  available = math.min(capacity, available + (now - ts) * rate)
+  tokens[i] = available
+  if available < 1 then
+    wait = math.max(wait, math.ceil((1 - available) / rate))
+  end
+end
+for i, key in ipairs(KEYS) do
+  local remaining = tokens[i]
+  if wait == 0 then remaining = remaining - 1 end
+  redis.call('HSET', key, 'tokens', remaining, 'ts', now)
+  redis.call('PEXPIRE', key, 120000)
+end
+return wait
+`;
+
+@Injectable()
+export class ProviderRateLimiterService {
+  private readonly logger = new Logger(ProviderRateLimiterService.name);
+
+  constructor(private readonly redisService: RedisService) {}
+
+  /**
+   * Wait for a request slot. Throws a non-retryable rate_limited
+   * ProviderRequestError when none frees up within `maxWaitMs`.
+   * Without Redis, requests are not limited.
+   */
+  async acquire(
+    provider: string,
+    limits: ProviderLimits,
+    maxWaitMs: number,
+  ): Promise<void> {
+    const client = this.redisService.getClient();
+    const { requests_per_second: perSecond, requests_per_minute: perMinute } =
+      limits.rate_limit;
+    if (!client || (!perSecond && !perMinute)) return;
+
+    const keys: string[] = [];
+    const args: number[] = [];
+    if (perSecond > 0) {
+      keys.push(`${BUCKET_PREFIX}${provider}:second`);
+      args.push(perSecond, perSecond / 1000);
+    }
+    if (perMinute > 0) {
+      keys.push(`${BUCKET_PREFIX}${provider}:minute`);
+      args.push(perMinute, perMinute / 60000);
+    }
+
+    const deadline = Date.now() + maxWaitMs;
+    for (;;) {
+      let wait: number;
+      try {
+        wait = Number(
+          await client.eval(TAKE_TOKEN_SCRIPT, keys.length, ...keys, ...args),
+        );
+      } catch (error) {
+        // Never block provider calls on a Redis outage
+        this.logger.warn(
+          `Rate limiter unavailable for ${provider}: ${(error as Error).message}`,
+        );
+        return;
+      }
+
+      if (wait === 0) return;
+      if (Date.now() + wait > deadline) {
+        throw new ProviderRequestError({
+          provider,
+          error_code: 'rate_limited',
+          error_message: `${provider} rate limit reached`,
+          is_retryable: false,
+        });
+      }
+      await new Promise((resolve) => setTimeout(resolve, wait));
+    }
+  }
+}
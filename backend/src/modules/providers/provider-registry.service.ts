@@ -0,0 +1,99 @@
+/**
+ * Provider Registry
+ * Discovers provider connectors and applies per-environment configuration
+ */
+
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { DiscoveryService } from '@nestjs/core';
+import { BridgeProvider } from './bridge-provider.decorator';
+import { AppConfigService } from '../../config/app-config.service';
+import { ProviderCallService } from './provider-call.service';
+import { ProviderConfig, ProviderConnector } from '../../common/interfaces';
+
+@Injectable()
+export class ProviderRegistry implements OnModuleInit {
+  private readonly logger = new Logger(ProviderRegistry.name);
+  private readonly connectors = new Map<string, ProviderConnector>();
+  private readonly configs = new Map<string, ProviderConfig>();
+
+  constructor(
+    private readonly discoveryService: DiscoveryService,
+    private readonly configService: AppConfigService,
+    private readonly providerCalls: ProviderCallService,
+  ) {}
+
+  onModuleInit() {
+    const wrappers = this.discoveryService.getProviders({
+      metadataKey: BridgeProvider.KEY,
+    });
+
+    for (const wrapper of wrappers) {
+      const connector = wrapper.instance as ProviderConnector | undefined;
+      // The same connector can be reachable from several modules
+      if (connector && !this.connectors.has(connector.name)) {
+        this.register(connector);
+      }
+    }
+
+    const summary = Array.from(this.configs.values())
+      .map((c) => `${c.name}(${c.enabled ? `p${c.priority}` : 'disabled'})`)
+      .join(', ');
+    this.logger.log(`Registered providers: ${summary || 'none'}`);
+  }
+
+  /**
+   * Register a connector manually (discovery covers decorated connectors).
+   * Calls through the registry are rate limited, timed out and retried.
+   */
+  register(connector: ProviderConnector): void {
+    this.connectors.set(connector.name, this.providerCalls.wrap(connector));
+    this.configs.set(
+      connector.name,
+      this.configService.getProviderConfig(connector.name),
+    );
+  }
+
+  /**
+   * Enabled providers, ordered by priority (lower = higher priority)
+   */
+  getProviders(): ProviderConnector[] {
+    return Array.from(this.connectors.values())
+      .filter((connector) => this.isEnabled(connector.name))
+      .sort((a, b) => this.getPriority(a.name) - this.getPriority(b.name));
+  }
+
+  /**
+   * Enabled provider by name, or undefined if unknown or disabled
+   */
+  getProvider(name: string): ProviderConnector | undefined {
+    return this.isEnabled(name) ? this.connectors.get(name) : undefined;
+  }
+
+  /**
+   * Enabled providers that support the given chain pair
+   */
+  getProvidersForRoute(
+    sourceChain: string,
+    destinationChain: string,
+  ): ProviderConnector[] {
+    return this.getProviders().filter((connector) =>
+      connector.supportsRoute(sourceChain, destinationChain),
+    );
+  }
+
+  getConfig(name: string): ProviderConfig | undefined {
+    return this.configs.get(name);
+  }
+
+  getProviderNames(): string[] {
+    return this.getProviders().map((connector) => connector.name);
+  }
+
+  isEnabled(name: string): boolean {
+    return this.configs.get(name)?.enabled === true;
+  }
+
+  getPriority(name: string): number {
+    return this.configs.get(name)?.priority ?? Number.MAX_SAFE_INTEGER;
+  }
+}
@@ -0,0 +1,101 @@
+/**
+ * Provider Reliability Service
+ * Feeds execution outcomes into ProviderReliability success metrics
+ */
+
+import { randomUUID } from 'crypto';
+import { Injectable, Logger } from '@nestjs/common';
+import { Execution } from '@prisma/client';
+import { PrismaService } from '../../config/prisma.service';
+import { TransactionStatus } from '../../common/constants';
+
+@Injectable()
+export class ProviderReliabilityService {
+  private readonly logger = new Logger(ProviderReliabilityService.name);
+
+  constructor(private readonly prismaService: PrismaService) {}
+
+  /**
+   * Record a finished execution against the provider that served it.
+   * SUCCESS counts as a success; FAILED and TIMEOUT as failures. REPLACED
+   * is ignored — the user replaced the transaction, not the provider.
+   */
+  async recordExecutionOutcome(
+    provider: string,
+    execution: Execution,
+  ): Promise<void> {
+    const status = execution.status as TransactionStatus;
+    const succeeded = status === TransactionStatus.SUCCESS;
+    if (
+      !succeeded &&
+      status !== TransactionStatus.FAILED &&
+      status !== TransactionStatus.TIMEOUT
+    ) {
+      return;
+    }
+
+    const finishedAt = execution.completed_at ?? new Date();
+    const success = succeeded ? 1 : 0;
+    // Averages run over successful executions only
+    const time = succeeded ? execution.actual_time : null;
+    const slippage = succeeded ? this.calculateSlippage(execution) : null;
+
+    // Single upsert so concurrent outcomes can't overwrite each other's
+    // counts — every SET expression reads the row as it was before
+    try {
+      await this.prismaService.$executeRaw`
+        INSERT INTO "provider_reliability" AS r (
+          "id", "provider", "total_executions", "successful_executions",
+          "failed_executions", "success_rate", "average_execution_time",
+          "average_slippage", "last_success_at", "last_failure_at",
+          "updated_at"
+        )
+        VALUES (
+          ${randomUUID()}, ${provider}, 1, ${success}, ${1 - success},
+          ${success}, COALESCE(${time}::float8, 0),
+          COALESCE(${slippage}::float8, 0),
+          ${succeeded ? finishedAt : null},
+          ${succeeded ? null : finishedAt}, NOW()
+        )
+        ON CONFLICT ("provider") DO UPDATE SET
+          "total_executions" = r."total_executions" + 1,
+          "successful_executions" = r."successful_executions" + ${success},
+          "failed_executions" = r."failed_executions" + ${1 - success},
+          "success_rate" = (r."successful_executions" + ${success})::float8
+            / (r."total_executions" + 1),
+          "average_execution_time" = CASE
+            WHEN ${time}::float8 IS NULL THEN r."average_execution_time"
+            ELSE (r."average_execution_time" * r."successful_executions"
+              + ${time}::float8) / (r."successful_executions" + 1)
+          END,
+          "average_slippage" = CASE
+            WHEN ${slippage}::float8 IS NULL THEN r."average_slippage"
+            ELSE (r."average_slippage" * r."successful_executions"
+              + ${slippage}::float8) / (r."successful_executions" + 1)
+          END,
+          "last_success_at" =
+            COALESCE(EXCLUDED."last_success_at", r."last_success_at"),
+          "last_failure_at" =
+            COALESCE(EXCLUDED."last_failure_at", r."last_failure_at"),
+          "updated_at" = NOW()
+      `;
+    } catch (error) {
+      this.logger.warn(
+        `Failed to record ${status} execution for ${provider}: ${(error as Error).message}`,
+      );
+    }
+  }
+
+  /**
+   * Shortfall of actual vs expected output, in percent (negative when the
+   * user received more than quoted). Null when either side is unknown.
+   */
+  private calculateSlippage(execution: Execution): number | null {
+    if (!execution.actual_output) return null;
+    const expected = parseFloat(execution.expected_output);
+    const actual = parseFloat(execution.actual_output);
+    if (!Number.isFinite(expected) || !Number.isFinite(actual) || expected <= 0)
+      return null;
+    return ((expected - actual) / expected) * 100;
+  }
+}
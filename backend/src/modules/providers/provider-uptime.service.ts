@@ -0,0 +1,323 @@
+/**
+ * Provider Uptime Service
+ * Stores every health check as a time series, rolls it up into hourly and
+ * daily uptime, and serves status-page style availability per provider
+ */
+
+import { Injectable, Logger } from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { PrismaService } from '../../config/prisma.service';
+import { ProviderHealthStatus } from '../../common/interfaces';
+import { UptimeWindow } from '../../common/constants';
+
+type UptimePeriod = 'hour' | 'day';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+const RAW_RETENTION_DAYS = 7; // Rollups keep the history after that
+const SCORING_WINDOW: UptimeWindow = '7d'; // Feeds ProviderReliability
+
+// 24h is shown per hour, longer windows per day
+const WINDOW_BUCKETS: Record<
+  UptimeWindow,
+  { period: UptimePeriod; count: number }
+> = {
+  '24h': { period: 'hour', count: 24 },
+  '7d': { period: 'day', count: 7 },
+  '30d': { period: 'day', count: 30 },
+};
+
+interface CheckTotals {
+  total_checks: number;
+  healthy_checks: number;
+  average_response_time_ms: number;
+}
+
+export interface UptimeBucket extends CheckTotals {
+  period_start: Date;
+  uptime_percentage: number | null;
+}
+
+export interface ProviderUptimeReport extends CheckTotals {
+  provider: string;
+  window: UptimeWindow;
+  uptime_percentage: number | null; // null when there are no checks yet
+  buckets: UptimeBucket[];
+}
+
+@Injectable()
+export class ProviderUptimeService {
+  private readonly logger = new Logger(ProviderUptimeService.name);
+
+  constructor(private readonly prismaService: PrismaService) {}
+
+  /**
+   * Append health check results to the time series
+   */
+  async recordChecks(results: ProviderHealthStatus[]): Promise<void> {
+    if (results.length === 0) return;
+
+    try {
+      await this.prismaService.providerHealthCheck.createMany({
+        data: results.map((health) => ({
+          provider: health.provider,
+          is_healthy: health.is_healthy,
+          response_time_ms: Math.round(health.response_time_ms),
+          error_message: health.error_message,
+          checked_at: health.last_checked,
+        })),
+      });
+    } catch (error) {
+      this.logger.debug(
+        `Skipping health check history: ${(error as Error).message}`,
+      );
+    }
+  }
+
+  /**
+   * Roll the last full hour up, then refresh the daily row it belongs to
+   * (at 00:05 that finalises the previous day)
+   */
+  @Cron('5 * * * *')
+  async rollup() {
+    const hourStart = this.periodStart(new Date(Date.now() - HOUR_MS), 'hour');
+
+    try {
+      await this.rollupHour(hourStart);
+      await this.rollupDay(this.periodStart(hourStart, 'day'));
+      await this.updateReliabilityUptime();
+    } catch (error) {
+      this.logger.warn(
+        `Provider uptime rollup failed: ${(error as Error).message}`,
+      );
+    }
+  }
+
+  @Cron(CronExpression.EVERY_DAY_AT_3AM)
+  async pruneHistory() {
+    const cutoff = new Date(Date.now() - RAW_RETENTION_DAYS * DAY_MS);
+    try {
+      const { count } = await this.prismaService.providerHealthCheck.deleteMany(
+        {
+          where: { checked_at: { lt: cutoff } },
+        },
+      );
+      if (count > 0) this.logger.log(`Pruned ${count} old health checks`);
+    } catch (error) {
+      this.logger.warn(
+        `Health check pruning failed: ${(error as Error).message}`,
+      );
+    }
+  }
+
+  /**
+   * Uptime over the window: the last 24 hours or 7/30 days, including the
+   * current (not yet rolled up) hour or day
+   */
+  async getUptime(
+    provider: string,
+    window: UptimeWindow,
+  ): Promise<ProviderUptimeReport> {
+    const { period, count } = WINDOW_BUCKETS[window];
+    const currentHour = this.periodStart(new Date(), 'hour');
+    const currentPeriod = this.periodStart(new Date(), period);
+    const from = new Date(
+      currentPeriod.getTime() - (count - 1) * this.periodLength(period),
+    );
+
+    const rows = await this.prismaService.providerUptime.findMany({
+      where: { provider, period, period_start: { gte: from } },
+      orderBy: { period_start: 'asc' },
+    });
+    const buckets = new Map<number, CheckTotals>(
+      rows.map((row) => [row.period_start.getTime(), row]),
+    );
+
+    // Rollups lag by up to an hour; count that hour from raw checks
+    const recent = await this.aggregateChecks(
+      provider,
+      currentHour,
+      new Date(),
+    );
+    buckets.set(
+      currentPeriod.getTime(),
+      this.combine([buckets.get(currentPeriod.getTime()), recent]),
+    );
+
+    const series: UptimeBucket[] = [];
+    for (let i = 0; i < count; i++) {
+      const start = new Date(from.getTime() + i * this.periodLength(period));
+      const totals = this.combine([buckets.get(start.getTime())]);
+      series.push({
+        period_start: start,
+        ...totals,
+        uptime_percentage: this.uptime(totals),
+      });
+    }
+
+    const totals = this.combine(series);
+    return {
+      provider,
+      window,
+      ...totals,
+      uptime_percentage: this.uptime(totals),
+      buckets: series,
+    };
+  }
+
+  private async rollupHour(hourStart: Date): Promise<void> {
+    const hourEnd = new Date(hourStart.getTime() + HOUR_MS);
+    const groups = await this.prismaService.providerHealthCheck.groupBy({
+      by: ['provider', 'is_healthy'],
+      where: { checked_at: { gte: hourStart, lt: hourEnd } },
+      _count: { _all: true },
+      _avg: { response_time_ms: true },
+    });
+
+    const byProvider = new Map<string, CheckTotals[]>();
+    for (const group of groups) {
+      const totals = byProvider.get(group.provider) ?? [];
+      totals.push({
+        total_checks: group._count._all,
+        healthy_checks: group.is_healthy ? group._count._all : 0,
+        average_response_time_ms: group._avg.response_time_ms ?? 0,
+      });
+      byProvider.set(group.provider, totals);
+    }
+
+    for (const [provider, totals] of byProvider) {
+      await this.saveRollup(provider, 'hour', hourStart, this.combine(totals));
+    }
+  }
+
+  private async rollupDay(dayStart: Date): Promise<void> {
+    const hours = await this.prismaService.providerUptime.findMany({
+      where: {
+        period: 'hour',
+        period_start: {
+          gte: dayStart,
+          lt: new Date(dayStart.getTime() + DAY_MS),
+        },
+      },
+    });
+
+    const byProvider = new Map<string, CheckTotals[]>();
+    for (const hour of hours) {
+      const totals = byProvider.get(hour.provider) ?? [];
+      totals.push(hour);
+      byProvider.set(hour.provider, totals);
+    }
+
+    for (const [provider, totals] of byProvider) {
+      await this.saveRollup(provider, 'day', dayStart, this.combine(totals));
+    }
+  }
+
+  /**
+   * Keep ProviderReliability.uptime_percentage (used in route scoring)
+   * in line with the rollups
+   */
+  private async updateReliabilityUptime(): Promise<void> {
+    const providers = await this.prismaService.providerReliability.findMany({
+      select: { provider: true },
+    });
+
+    for (const { provider } of providers) {
+      const { uptime_percentage } = await this.getUptime(
+        provider,
+        SCORING_WINDOW,
+      );
+      if (uptime_percentage === null) continue;
+
+      await this.prismaService.providerReliability.update({
+        where: { provider },
+        data: { uptime_percentage },
+      });
+    }
+  }
+
+  private async saveRollup(
+    provider: string,
+    period: UptimePeriod,
+    periodStart: Date,
+    totals: CheckTotals,
+  ): Promise<void> {
+    const data = { ...totals, uptime_percentage: this.uptime(totals) ?? 0 };
+    await this.prismaService.providerUptime.upsert({
+      where: {
+        provider_period_period_start: {
+          provider,
+          period,
+          period_start: periodStart,
+        },
+      },
+      create: { provider, period, period_start: periodStart, ...data },
+      update: data,
+    });
+  }
+
+  private async aggregateChecks(
+    provider: string,
+    from: Date,
+    to: Date,
+  ): Promise<CheckTotals> {
+    const [total, healthy] = await Promise.all([
+      this.prismaService.providerHealthCheck.aggregate({
+        where: { provider, checked_at: { gte: from, lt: to } },
+        _count: { _all: true },
+        _avg: { response_time_ms: true },
+      }),
+      this.prismaService.providerHealthCheck.count({
+        where: {
+          provider,
+          is_healthy: true,
+          checked_at: { gte: from, lt: to },
+        },
+      }),
+    ]);
+
+    return {
+      total_checks: total._count._all,
+      healthy_checks: healthy,
+      average_response_time_ms: total._avg.response_time_ms ?? 0,
+    };
+  }
+
+  /**
+   * Sum check counts; response times are averaged weighted by check count
+   */
+  private combine(parts: (CheckTotals | undefined)[]): CheckTotals {
+    let total = 0;
+    let healthy = 0;
+    let responseTime = 0;
+    for (const part of parts) {
+      if (!part) continue;
+      total += part.total_checks;
+      healthy += part.healthy_checks;
+      responseTime += part.average_response_time_ms * part.total_checks;
+    }
+
+    return {
+      total_checks: total,
+      healthy_checks: healthy,
+      average_response_time_ms: total ? responseTime / total : 0,
+    };
+  }
+
+  private uptime(totals: CheckTotals): number | null {
+    return totals.total_checks
+      ? (totals.healthy_checks / totals.total_checks) * 100
+      : null;
+  }
+
+  private periodStart(date: Date, period: UptimePeriod): Date {
+    const start = new Date(date);
+    start.setUTCMinutes(0, 0, 0);
+    if (period === 'day') start.setUTCHours(0);
+    return start;
+  }
+
+  private periodLength(period: UptimePeriod): number {
+    return period === 'hour' ? HOUR_MS : DAY_MS;
+  }
+}
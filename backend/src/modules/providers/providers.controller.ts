@@ -0,0 +1,39 @@
+/**
+ * Providers Controller
+ * Exposes provider availability history
+ */
+
+import {
+  Controller,
+  Get,
+  Param,
+  Query,
+  NotFoundException,
+} from '@nestjs/common';
+import { ProviderUptimeService } from './provider-uptime.service';
+import { ProviderRegistry } from './provider-registry.service';
+import { ProviderUptimeRequestDto } from '../../common/dto';
+
+@Controller('providers')
+export class ProvidersController {
+  constructor(
+    private readonly uptimeService: ProviderUptimeService,
+    private readonly providerRegistry: ProviderRegistry,
+  ) {}
+
+  /**
+   * GET /providers/:name/uptime?window=24h|7d|30d
+   * Status-page style availability from the health check history
+   */
+  @Get(':name/uptime')
+  async getUptime(
+    @Param('name') name: string,
+    @Query() query: ProviderUptimeRequestDto,
+  ) {
+    // Any registered connector, enabled or not — disabled ones keep history
+    if (!this.providerRegistry.getConfig(name)) {
+      throw new NotFoundException(`Unknown provider: ${name}`);
+    }
+    return this.uptimeService.getUptime(name, query.window ?? '24h');
+  }
+}
@@ -4,30 +4,62 @@
  */
 
 import { Module } from '@nestjs/common';
+import { DiscoveryModule } from '@nestjs/core';
 import { ScheduleModule } from '@nestjs/schedule';
-import { LifiService } from './lifi/lifi.service';
-import { MayanService } from './mayan/mayan.service';
-import { ChangenowService } from './changenow/changenow.service';
+import { LifiModule } from './lifi/lifi.module';
+import { MayanModule } from './mayan/mayan.module';
+import { ChangenowModule } from './changenow/changenow.module';
+import { ProviderRegistry } from './provider-registry.service';
+import { RouteStoreModule } from './route-store.module';
 import { QuoteAggregatorService } from './quote-aggregator.service';
+import { QuoteCacheService } from './quote-cache.service';
+import { QuoteCoalescerService } from './quote-coalescer.service';
 import { ProviderHealthService } from './provider-health.service';
+import { ProviderReliabilityService } from './provider-reliability.service';
+import { ProviderCallService } from './provider-call.service';
+import { ProviderRateLimiterService } from './provider-rate-limiter.service';
+import { ProviderCircuitBreakerService } from './provider-circuit-breaker.service';
+import { ProviderHealthWindowService } from './provider-health-window.service';
+import { ProviderUptimeService } from './provider-uptime.service';
+import { ProvidersController } from './providers.controller';
 import { AppConfigService } from '../../config/app-config.service';
 
 @Module({
-  imports: [ScheduleModule.forRoot()],
+  imports: [
+    ScheduleModule.forRoot(),
+    DiscoveryModule,
+    RouteStoreModule,
+    // Connector modules — each registers its connector via @BridgeProvider()
+    LifiModule,
+    MayanModule,
+    ChangenowModule,
+  ],
+  controllers: [ProvidersController],
   providers: [
     AppConfigService,
-    LifiService,
-    MayanService,
-    ChangenowService,
+    ProviderRegistry,
     QuoteAggregatorService,
+    QuoteCacheService,
+    QuoteCoalescerService,
     ProviderHealthService,
+    ProviderReliabilityService,
+    ProviderCallService,
+    ProviderRateLimiterService,
+    ProviderCircuitBreakerService,
+    ProviderHealthWindowService,
+    ProviderUptimeService,
   ],
   exports: [
-    LifiService,
-    MayanService,
-    ChangenowService,
+    LifiModule,
+    MayanModule,
+    ChangenowModule,
+    RouteStoreModule,
+    ProviderRegistry,
     QuoteAggregatorService,
     ProviderHealthService,
+    ProviderReliabilityService,
+    ProviderCallService,
+    ProviderCircuitBreakerService,
   ],
 })
 export class ProvidersModule {}
@@ -4,75 +4,127 @@
  */
 
 import { Injectable, Logger } from '@nestjs/common';
-import { LifiService } from './lifi/lifi.service';
-import { MayanService } from './mayan/mayan.service';
-import { ChangenowService } from './changenow/changenow.service';
+import { ProviderRegistry } from './provider-registry.service';
+import { RouteStoreService } from './route-store.service';
+import { QuoteCacheService } from './quote-cache.service';
+import { QuoteCoalescerService } from './quote-coalescer.service';
+import { ProviderCircuitBreakerService } from './provider-circuit-breaker.service';
+import { ProviderHealthWindowService } from './provider-health-window.service';
+import { toProviderError } from './provider-error.util';
+import { getAmountBucket, scaleRoute } from './quote-scaling.util';
+import { AppConfigService } from '../../config/app-config.service';
+import { MetricsService } from '../../common/metrics/metrics.service';
 import {
   NormalizedRoute,
   QuoteParams,
   ProviderConnector,
 } from '../../common/interfaces';
-import { RedisService } from '../../config/redis.service';
+import { CacheStatus } from '../../common/constants';
+
+// Worst status wins: any live fetch makes the response a MISS
+const CACHE_STATUS_ORDER = [
+  CacheStatus.HIT,
+  CacheStatus.STALE,
+  CacheStatus.EXPIRED,
+  CacheStatus.MISS,
+];
+
+interface ProviderQuoteResult {
+  route: NormalizedRoute | null;
+  cache_status?: CacheStatus; // unset when the provider does not serve the pair
+}
 
 interface AggregatedQuoteResult {
   routes: NormalizedRoute[];
   provider_statuses: Record<string, string>;
   total_routes: number;
   response_time_ms: number;
+  cache_status: CacheStatus;
 }
 
 @Injectable()
 export class QuoteAggregatorService {
   private readonly logger = new Logger(QuoteAggregatorService.name);
-  private providers: ProviderConnector[];
 
   constructor(
-    private readonly lifiService: LifiService,
-    private readonly mayanService: MayanService,
-    private readonly changenowService: ChangenowService,
-    private readonly redisService: RedisService,
-  ) {
-    this.providers = [
-      this.lifiService,
-      this.mayanService,
-      this.changenowService,
-    ];
-  }
+    private readonly providerRegistry: ProviderRegistry,
+    private readonly routeStore: RouteStoreService,
+    private readonly quoteCache: QuoteCacheService,
+    private readonly coalescer: QuoteCoalescerService,
+    private readonly circuitBreaker: ProviderCircuitBreakerService,
+    private readonly healthWindow: ProviderHealthWindowService,
+    private readonly configService: AppConfigService,
+    private readonly metrics: MetricsService,
+  ) {}
 
-  async aggregateQuotes(params: QuoteParams): Promise<AggregatedQuoteResult> {
+  /**
+   * Fetch quotes from all enabled providers, each served from its own cache
+   * entry when possible (stale entries are refreshed in the background).
+   * `onRoute` is called with each valid route as soon as its provider
+   * answers (or from cache), before the result resolves.
+   */
+  async aggregateQuotes(
+    params: QuoteParams,
+    onRoute?: (route: NormalizedRoute) => void,
+  ): Promise<AggregatedQuoteResult> {
     const startTime = Date.now();
     const cacheKey = this.buildCacheKey(params);
 
-    // Check cache first
-    const cached = await this.getCachedQuotes(cacheKey);
-    if (cached) {
-      this.logger.log('Cache hit for quote request');
-      return {
-        ...cached,
-        response_time_ms: Date.now() - startTime,
-      };
-    }
-
-    // Fetch quotes from all providers in parallel
+    // Query all enabled providers in parallel, cache first per provider.
+    // Providers with an open circuit are skipped entirely.
+    const [providers, openProviders] = this.partitionByCircuit(
+      this.providerRegistry.getProviders(),
+    );
     const results = await Promise.allSettled(
-      this.providers.map((provider) =>
-        this.fetchQuoteWithTimeout(provider, params),
-      ),
+      providers.map(async (provider): Promise<ProviderQuoteResult> => {
+        if (
+          !provider.supportsRoute(params.source_chain, params.destination_chain)
+        ) {
+          return {
+            route: await this.requestQuote(provider, params),
+          };
+        }
+
+        // Redis, then Postgres
+        const cached = await this.quoteCache.get(cacheKey, provider.name);
+        this.metrics.recordQuoteCacheLookup(provider.name, cached.status);
+        if (cached.route) {
+          if (cached.status === CacheStatus.STALE) {
+            this.revalidate(provider, params, cacheKey);
+          }
+          const route = await this.fitToAmount(cached.route, params.amount);
+          onRoute?.(route);
+          return { route, cache_status: cached.status };
+        }
+
+        const route = await this.fetchQuote(provider, params, cacheKey);
+        if (route) onRoute?.(route);
+        return { route, cache_status: cached.status };
+      }),
     );
 
     // Process results
     const routes: NormalizedRoute[] = [];
     const providerStatuses: Record<string, string> = {};
+    const cacheStatuses: CacheStatus[] = [];
+
+    for (const provider of openProviders) {
+      providerStatuses[provider.name] = 'circuit_open';
+    }
 
     results.forEach((result, index) => {
-      const providerName = this.providers[index].name;
+      const providerName = providers[index].name;
 
-      if (result.status === 'fulfilled' && result.value) {
-        routes.push(result.value);
+      if (result.status === 'fulfilled' && result.value.cache_status) {
+        cacheStatuses.push(result.value.cache_status);
+      }
+
+      if (result.status === 'fulfilled' && result.value.route) {
+        routes.push(result.value.route);
         providerStatuses[providerName] = 'success';
         this.logger.log(`${providerName}: Quote fetched successfully`);
       } else {
-        // Handles both: rejected promises AND fulfilled-with-null (caught errors inside fetchQuoteWithTimeout)
+        // Handles both: rejected promises AND fulfilled-with-null (caught errors inside requestQuote)
         providerStatuses[providerName] = 'failed';
         const reason =
           result.status === 'rejected'
@@ -97,42 +149,115 @@ export class QuoteAggregatorService {
       provider_statuses: providerStatuses,
       total_routes: validRoutes.length,
       response_time_ms: Date.now() - startTime,
+      cache_status: cacheStatuses.length
+        ? cacheStatuses.reduce((worst, status) =>
+            CACHE_STATUS_ORDER.indexOf(status) >
+            CACHE_STATUS_ORDER.indexOf(worst)
+              ? status
+              : worst,
+          )
+        : CacheStatus.MISS,
     };
 
-    // Cache the results
-    await this.cacheQuotes(cacheKey, aggregatedResult);
-
     return aggregatedResult;
   }
 
-  private async fetchQuoteWithTimeout(
+  /**
+   * Live quote from one provider. Valid routes are stored for execution
+   * and cached; failures are not cached so the next request retries.
+   * Identical concurrent requests (on any instance) share one round-trip.
+   */
+  private async fetchQuote(
     provider: ProviderConnector,
     params: QuoteParams,
-    timeout: number = 15000,
+    cacheKey: string,
   ): Promise<NormalizedRoute | null> {
-    try {
-      // Check if provider supports this route
-      if (
-        !provider.supportsRoute(params.source_chain, params.destination_chain)
-      ) {
-        throw new Error(
-          `Provider ${provider.name} does not support this route`,
-        );
-      }
+    const route = await this.coalescer.coalesce(
+      cacheKey,
+      provider.name,
+      async () => {
+        const quote = await this.requestQuote(provider, params);
+        if (!quote || !this.validateRoute(quote)) return quote;
 
-      const timeoutPromise = new Promise<null>((_, reject) =>
-        setTimeout(() => reject(new Error('Timeout')), timeout),
-      );
+        // Keep raw provider data so quoted routes can be executed later
+        // (saved per route so streamed routes are executable right away)
+        await this.routeStore.saveRoutes([quote]);
+        await this.quoteCache.set(cacheKey, params, quote);
+        return quote;
+      },
+    );
 
-      const quotePromise = provider.getQuote(params);
+    // A shared result may have been quoted for another amount in the bucket
+    return route && this.fitToAmount(route, params.amount);
+  }
 
-      return await Promise.race([quotePromise, timeoutPromise]);
+  /**
+   * Refresh a stale cache entry without holding up the response
+   */
+  private revalidate(
+    provider: ProviderConnector,
+    params: QuoteParams,
+    cacheKey: string,
+  ): void {
+    this.fetchQuote(provider, params, cacheKey).catch((error: Error) =>
+      this.logger.warn(
+        `Background refresh for ${provider.name} failed: ${error.message}`,
+      ),
+    );
+  }
+
+  /**
+   * Single provider quote; the registry's connectors already apply the
+   * provider's rate limit, timeout and retries
+   */
+  private async requestQuote(
+    provider: ProviderConnector,
+    params: QuoteParams,
+  ): Promise<NormalizedRoute | null> {
+    // Check if provider supports this route
+    if (
+      !provider.supportsRoute(params.source_chain, params.destination_chain)
+    ) {
+      this.logger.error(
+        `Provider ${provider.name} failed: Provider ${provider.name} does not support this route`,
+      );
+      return null;
+    }
+
+    const startTime = Date.now();
+    try {
+      const route = await provider.getQuote(params);
+      this.circuitBreaker.recordSuccess(provider.name);
+      this.healthWindow.record(provider.name, Date.now() - startTime, true);
+      this.metrics.recordQuote(provider.name, Date.now() - startTime, true);
+      return route;
     } catch (error) {
       this.logger.error(`Provider ${provider.name} failed: ${error.message}`);
+      this.metrics.recordQuote(provider.name, Date.now() - startTime, false);
+      // Only outages count against the circuit, not "no route" style errors
+      if (toProviderError(provider.name, error).is_retryable) {
+        this.circuitBreaker.recordFailure(provider.name);
+        this.healthWindow.record(provider.name, Date.now() - startTime, false);
+      }
       return null;
     }
   }
 
+  private partitionByCircuit(
+    providers: ProviderConnector[],
+  ): [ProviderConnector[], ProviderConnector[]] {
+    const available: ProviderConnector[] = [];
+    const open: ProviderConnector[] = [];
+    for (const provider of providers) {
+      if (this.circuitBreaker.isAvailable(provider.name)) {
+        available.push(provider);
+      } else {
+        open.push(provider);
+      }
+    }
+    return [available, open];
+  }
+
   private validateRoute(route: NormalizedRoute): boolean {
     try {
       // Use parseFloat to handle both raw-unit integers (LI.FI) and human-readable floats (ChangeNOW/Mayan)
@@ -160,30 +285,29 @@ export class QuoteAggregatorService {
     }
   }
 
-  private buildCacheKey(params: QuoteParams): string {
-    return `quote:${params.source_chain}:${params.destination_chain}:${params.source_token}:${params.destination_token}:${params.amount}`;
-  }
+  /**
+   * A route cached for another amount in the same bucket is rescaled to the
+   * requested amount and stored under its own (approximate) route id
+   */
+  private async fitToAmount(
+    route: NormalizedRoute,
+    amount: string,
+  ): Promise<NormalizedRoute> {
+    if (route.input_amount === amount) return route;
 
-  private async getCachedQuotes(
-    key: string,
-  ): Promise<AggregatedQuoteResult | null> {
-    try {
-      const cached = await this.redisService.getJson(key);
-      return cached as AggregatedQuoteResult;
-    } catch (error) {
-      return null;
-    }
+    const scaled = scaleRoute(route, amount);
+    await this.routeStore.saveRoutes([scaled]);
+    return scaled;
   }
 
-  private async cacheQuotes(
-    key: string,
-    result: AggregatedQuoteResult,
-  ): Promise<void> {
-    try {
-      // Cache for 30 seconds
-      await this.redisService.setJson(key, result, 30);
-    } catch (error) {
-      this.logger.error(`Cache error: ${error.message}`);
-    }
+  /**
+   * With bucketing enabled, amounts within the configured band share a key
+   */
+  private buildCacheKey(params: QuoteParams): string {
+    const bucketing = this.configService.getQuoteBucketing();
+    const amountKey =
+      (bucketing.enabled && getAmountBucket(params.amount, bucketing.band)) ||
+      params.amount;
+    return `quote:${params.source_chain}:${params.destination_chain}:${params.source_token}:${params.destination_token}:${amountKey}`;
   }
 }
@@ -0,0 +1,194 @@
+/**
+ * Quote Cache Service
+ * Tiered per-provider quote cache: Redis first, then the QuoteCache table,
+ * then the providers. Each provider's quote is cached under its own key and
+ * TTL; past the TTL it is still served as STALE for QUOTE_CACHE_STALE_TTL
+ * seconds while the caller refreshes it.
+ */
+
+import { Injectable, Logger } from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '../../config/prisma.service';
+import { RedisService } from '../../config/redis.service';
+import { AppConfigService } from '../../config/app-config.service';
+import { CacheStatus } from '../../common/constants';
+import { NormalizedRoute, QuoteParams } from '../../common/interfaces';
+
+interface CachedQuote {
+  route: NormalizedRoute;
+  cached_at: number; // epoch ms
+}
+
+export interface QuoteCacheLookup {
+  status: CacheStatus;
+  route?: NormalizedRoute;
+}
+
+@Injectable()
+export class QuoteCacheService {
+  private readonly logger = new Logger(QuoteCacheService.name);
+
+  constructor(
+    private readonly prismaService: PrismaService,
+    private readonly redisService: RedisService,
+    private readonly configService: AppConfigService,
+  ) {}
+
+  /**
+   * Redis, then Postgres. A Postgres hit is written back to Redis for the
+   * rest of its lifetime; an expired row reports EXPIRED instead of MISS.
+   */
+  async get(key: string, provider: string): Promise<QuoteCacheLookup> {
+    const entryKey = this.buildEntryKey(key, provider);
+
+    try {
+      const cached = await this.redisService.getJson<CachedQuote>(entryKey);
+      if (cached) {
+        return this.serve(entryKey, provider, cached);
+      }
+    } catch (error) {
+      this.logger.warn(
+        `Redis quote lookup failed: ${(error as Error).message}`,
+      );
+    }
+
+    try {
+      const row = await this.prismaService.quoteCache.findUnique({
+        where: { cache_key: entryKey },
+      });
+      if (!row) return { status: CacheStatus.MISS };
+
+      const remaining = Math.floor(
+        (row.expires_at.getTime() - Date.now()) / 1000,
+      );
+      if (remaining <= 0) return { status: CacheStatus.EXPIRED };
+
+      const cached: CachedQuote = {
+        route: row.cached_route as unknown as NormalizedRoute,
+        cached_at: row.created_at.getTime(),
+      };
+      await this.redisService
+        .setJson(entryKey, cached, remaining)
+        .catch((error: Error) =>
+          this.logger.warn(`Failed to re-warm ${entryKey}: ${error.message}`),
+        );
+      return this.serve(entryKey, provider, cached);
+    } catch (error) {
+      this.logger.warn(
+        `Postgres quote lookup failed: ${(error as Error).message}`,
+      );
+      return { status: CacheStatus.MISS };
+    }
+  }
+
+  /**
+   * Write a provider's quote to both tiers. Entries live for the provider's
+   * TTL plus the stale window.
+   */
+  async set(
+    key: string,
+    params: QuoteParams,
+    route: NormalizedRoute,
+  ): Promise<void> {
+    const entryKey = this.buildEntryKey(key, route.provider);
+    const lifetime = this.getTtl(route.provider) + this.getStaleTtl();
+    const now = new Date();
+    const cached: CachedQuote = { route, cached_at: now.getTime() };
+
+    try {
+      await this.redisService.setJson(entryKey, cached, lifetime);
+    } catch (error) {
+      this.logger.error(`Cache error: ${(error as Error).message}`);
+    }
+
+    const entry = {
+      cached_route: route as unknown as Prisma.InputJsonValue,
+      hit_count: 0,
+      created_at: now,
+      expires_at: new Date(now.getTime() + lifetime * 1000),
+      last_accessed_at: now,
+    };
+    try {
+      await this.prismaService.quoteCache.upsert({
+        where: { cache_key: entryKey },
+        create: {
+          cache_key: entryKey,
+          provider: route.provider,
+          source_chain: params.source_chain,
+          destination_chain: params.destination_chain,
+          source_token: params.source_token,
+          destination_token: params.destination_token,
+          input_amount: params.amount,
+          ...entry,
+        },
+        update: entry,
+      });
+    } catch (error) {
+      this.logger.warn(
+        `Failed to persist quote cache entry: ${(error as Error).message}`,
+      );
+    }
+  }
+
+  @Cron(CronExpression.EVERY_10_MINUTES)
+  async cleanExpired() {
+    try {
+      const removed = await this.prismaService.cleanExpiredQuotes();
+      if (removed > 0) {
+        this.logger.log(`Removed ${removed} expired quote cache entries`);
+      }
+    } catch (error) {
+      this.logger.error(
+        `Quote cache cleanup failed: ${(error as Error).message}`,
+      );
+    }
+  }
+
+  /**
+   * HIT within the provider's TTL, STALE during the stale window after it
+   */
+  private serve(
+    entryKey: string,
+    provider: string,
+    cached: CachedQuote,
+  ): QuoteCacheLookup {
+    const age = (Date.now() - cached.cached_at) / 1000;
+    const ttl = this.getTtl(provider);
+    if (age >= ttl + this.getStaleTtl()) {
+      return { status: CacheStatus.EXPIRED };
+    }
+
+    this.recordHit(entryKey);
+    return {
+      status: age < ttl ? CacheStatus.HIT : CacheStatus.STALE,
+      route: cached.route,
+    };
+  }
+
+  /**
+   * Hit counting is not awaited so cache hits stay fast
+   */
+  private recordHit(entryKey: string): void {
+    this.prismaService.quoteCache
+      .updateMany({
+        where: { cache_key: entryKey },
+        data: { hit_count: { increment: 1 }, last_accessed_at: new Date() },
+      })
+      .catch((error: Error) =>
+        this.logger.warn(`Failed to record cache hit: ${error.message}`),
+      );
+  }
+
+  private buildEntryKey(key: string, provider: string): string {
+    return `${key}:${provider}`;
+  }
+
+  private getTtl(provider: string): number {
+    return this.configService.getProviderConfig(provider).quote_cache_ttl;
+  }
+
+  private getStaleTtl(): number {
+    return this.configService.getCacheTtls().quoteStale;
+  }
+}
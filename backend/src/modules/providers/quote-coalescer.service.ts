@@ -0,0 +1,133 @@
+/**
+ * Quote Coalescer Service
+ * Deduplicates identical in-flight provider quote requests. Concurrent
+ * callers in this instance share one promise; across instances a Redis
+ * lock elects a single leader and the others wait for its result to land
+ * in the quote cache.
+ */
+
+import { Injectable, Logger } from '@nestjs/common';
+import { randomUUID } from 'crypto';
+import { RedisService } from '../../config/redis.service';
+import { QuoteCacheService } from './quote-cache.service';
+import { ProviderCallService } from './provider-call.service';
+import { NormalizedRoute } from '../../common/interfaces';
+
+const LOCK_PREFIX = 'quote:inflight:';
+const WAIT_POLL_INTERVAL_MS = 200;
+
+@Injectable()
+export class QuoteCoalescerService {
+  private readonly logger = new Logger(QuoteCoalescerService.name);
+  private readonly inFlight = new Map<
+    string,
+    Promise<NormalizedRoute | null>
+  >();
+  private readonly instanceId = randomUUID();
+
+  constructor(
+    private readonly redisService: RedisService,
+    private readonly quoteCache: QuoteCacheService,
+    private readonly providerCalls: ProviderCallService,
+  ) {}
+
+  /**
+   * Run `fetch` for (cacheKey, provider) unless an identical request is
+   * already in flight here or on another instance, in which case its
+   * result is shared. `fetch` is expected to write the quote cache.
+   */
+  coalesce(
+    cacheKey: string,
+    provider: string,
+    fetch: () => Promise<NormalizedRoute | null>,
+  ): Promise<NormalizedRoute | null> {
+    const key = `${cacheKey}:${provider}`;
+    const pending = this.inFlight.get(key);
+    if (pending) return pending;
+
+    const request = this.runOnce(key, cacheKey, provider, fetch).finally(() =>
+      this.inFlight.delete(key),
+    );
+    this.inFlight.set(key, request);
+    return request;
+  }
+
+  private async runOnce(
+    key: string,
+    cacheKey: string,
+    provider: string,
+    fetch: () => Promise<NormalizedRoute | null>,
+  ): Promise<NormalizedRoute | null> {
+    const lockKey = LOCK_PREFIX + key;
+    // Outlives the provider call's total budget, retries included
+    const lockTtlMs = this.providerCalls.getMaxCallDuration(provider) + 5000;
+
+    let leader = true;
+    try {
+      leader = await this.redisService.setIfAbsent(
+        lockKey,
+        this.instanceId,
+        Math.ceil(lockTtlMs / 1000),
+      );
+    } catch (error) {
+      this.logger.warn(
+        `Quote lock unavailable, fetching directly: ${(error as Error).message}`,
+      );
+    }
+
+    if (leader) {
+      try {
+        return await fetch();
+      } finally {
+        await this.releaseLock(lockKey);
+      }
+    }
+
+    this.logger.debug(`Waiting for in-flight ${provider} quote ${cacheKey}`);
+    return this.waitForLeader(lockKey, cacheKey, provider, lockTtlMs);
+  }
+
+  /**
+   * Poll the lock until the leader releases it, then read its cached quote.
+   * A leader that failed leaves nothing in the cache — the failure is
+   * shared rather than retried against the provider.
+   */
+  private async waitForLeader(
+    lockKey: string,
+    cacheKey: string,
+    provider: string,
+    lockTtlMs: number,
+  ): Promise<NormalizedRoute | null> {
+    const deadline = Date.now() + lockTtlMs;
+    try {
+      while (
+        Date.now() < deadline &&
+        (await this.redisService.exists(lockKey))
+      ) {
+        await new Promise((resolve) =>
+          setTimeout(resolve, WAIT_POLL_INTERVAL_MS),
+        );
+      }
+    } catch (error) {
+      this.logger.warn(
+        `Lost track of in-flight quote ${lockKey}: ${(error as Error).message}`,
+      );
+    }
+
+    const cached = await this.quoteCache.get(cacheKey, provider);
+    return cached.route ?? null;
+  }
+
+  private async releaseLock(lockKey: string): Promise<void> {
+    try {
+      // Only release our own lock — it may have expired and been re-taken
+      if ((await this.redisService.get(lockKey)) === this.instanceId) {
+        await this.redisService.del(lockKey);
+      }
+    } catch (error) {
+      this.logger.warn(
+        `Failed to release quote lock ${lockKey}: ${(error as Error).message}`,
+      );
+    }
+  }
+}
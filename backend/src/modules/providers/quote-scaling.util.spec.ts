@@ -0,0 +1,62 @@
+import { getAmountBucket, scaleAmount } from './quote-scaling.util';
+
+describe('quote scaling', () => {
+  describe('scaleAmount', () => {
+    it('keeps raw-unit integers exact, however small', () => {
+      // 50 USDC -> 50.5 USDC in 6-decimal raw units
+      expect(scaleAmount('50000000', '50000000', '50500000', 6)).toBe(
+        '50500000',
+      );
+      expect(scaleAmount('1000', '100', '101')).toBe('1010');
+      expect(scaleAmount('10', '3', '4')).toBe('13');
+    });
+
+    it('scales wei amounts without float rounding', () => {
+      expect(
+        scaleAmount(
+          '123456789012345678901',
+          '1000000000000000000',
+          '2000000000000000000',
+        ),
+      ).toBe('246913578024691357802');
+    });
+
+    it('rounds human-readable amounts to the token decimals', () => {
+      expect(scaleAmount('49.9', '100', '101', 6)).toBe('50.399');
+      expect(scaleAmount('1.234567', '3', '4', 2)).toBe('1.65');
+    });
+
+    it('keeps at least 8 decimals when the token decimals are unknown', () => {
+      expect(scaleAmount('0.5', '3', '4')).toBe('0.66666667');
+    });
+
+    it('keeps raw units integral when the input amounts are not', () => {
+      expect(scaleAmount('1000', '1.5', '3')).toBe('2000');
+    });
+
+    it('returns the value unchanged when nothing needs scaling', () => {
+      expect(scaleAmount('42', '100', '100')).toBe('42');
+      expect(scaleAmount('', '100', '200')).toBe('');
+      expect(scaleAmount('abc', '100', '200')).toBe('abc');
+    });
+  });
+
+  describe('getAmountBucket', () => {
+    it('puts amounts within the band in the same bucket', () => {
+      expect(getAmountBucket('1000', 0.05)).toBe(getAmountBucket('1020', 0.05));
+    });
+
+    it('separates amounts further apart than the band', () => {
+      expect(getAmountBucket('1000', 0.05)).not.toBe(
+        getAmountBucket('1200', 0.05),
+      );
+    });
+
+    it('returns null for amounts or bands that cannot be bucketed', () => {
+      expect(getAmountBucket('0', 0.05)).toBeNull();
+      expect(getAmountBucket('-5', 0.05)).toBeNull();
+      expect(getAmountBucket('abc', 0.05)).toBeNull();
+      expect(getAmountBucket('1000', 0)).toBeNull();
+    });
+  });
+});
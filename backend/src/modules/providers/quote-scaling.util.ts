@@ -0,0 +1,97 @@
+/**
+ * Quote Scaling Helpers
+ * Amount buckets for quote cache keys, and linear rescaling of a cached
+ * route to a nearby input amount
+ */
+
+import { randomUUID } from 'crypto';
+import { NormalizedRoute } from '../../common/interfaces';
+
+const INTEGER_AMOUNT = /^\d+$/;
+// Precision for fractional amounts of a token with unknown decimals
+const DEFAULT_DECIMALS = 8;
+
+/**
+ * Bucket id for an amount: consecutive buckets grow by (1 + band), so any
+ * two amounts in the same bucket are within `band` of each other.
+ * Returns null for amounts that cannot be bucketed.
+ */
+export function getAmountBucket(amount: string, band: number): string | null {
+  const value = parseFloat(amount);
+  if (!Number.isFinite(value) || value <= 0 || band <= 0) return null;
+  return `b${Math.floor(Math.log(value) / Math.log1p(band))}`;
+}
+
+/**
+ * value * to / from. Integer amounts are raw units (wei, lamports — the
+ * NormalizedRoute contract) and stay integers via BigInt. Fractional ones
+ * are human-readable and are rounded to the token's `decimals`.
+ */
+export function scaleAmount(
+  value: string,
+  from: string,
+  to: string,
+  decimals?: number,
+): string {
+  if (!value || from === to) return value;
+
+  const isRaw = INTEGER_AMOUNT.test(value);
+  if (
+    isRaw &&
+    INTEGER_AMOUNT.test(from) &&
+    INTEGER_AMOUNT.test(to) &&
+    BigInt(from) > 0n
+  ) {
+    return ((BigInt(value) * BigInt(to)) / BigInt(from)).toString();
+  }
+
+  const ratio = parseFloat(to) / parseFloat(from);
+  const amount = parseFloat(value);
+  if (!Number.isFinite(ratio) || !Number.isFinite(amount)) return value;
+
+  const precision = isRaw
+    ? 0
+    : (decimals ??
+      Math.max(value.split('.')[1]?.length ?? 0, DEFAULT_DECIMALS));
+  const scaled = (amount * ratio).toFixed(precision);
+  return scaled.includes('.') ? scaled.replace(/\.?0+$/, '') : scaled;
+}
+
+/**
+ * Copy of a cached route rescaled linearly to `inputAmount`, under a new
+ * route id and flagged approximate — it must be re-quoted before execution
+ */
+export function scaleRoute(
+  route: NormalizedRoute,
+  inputAmount: string,
+): NormalizedRoute {
+  const from = route.input_amount;
+  const scale = (value: string, decimals?: number) =>
+    scaleAmount(value, from, inputAmount, decimals);
+  const outputDecimals = route.destination_token_decimals;
+
+  return {
+    ...route,
+    route_id: randomUUID(),
+    input_amount: inputAmount,
+    output_amount: scale(route.output_amount, outputDecimals),
+    total_fee: {
+      ...route.total_fee,
+      network_fee: scale(route.total_fee.network_fee),
+      bridge_fee: scale(route.total_fee.bridge_fee),
+      protocol_fee: scale(route.total_fee.protocol_fee),
+      total_fee_usd:
+        route.total_fee.total_fee_usd !== undefined
+          ? (route.total_fee.total_fee_usd * parseFloat(inputAmount)) /
+            parseFloat(from)
+          : undefined,
+    },
+    steps: route.steps.map((step) => ({
+      ...step,
+      expected_output: scale(step.expected_output, outputDecimals),
+    })),
+    approximate: true,
+    created_at: undefined,
+    expires_at: undefined,
+  };
+}
@@ -0,0 +1,13 @@
+/**
+ * Route Store Module
+ * Shares quoted-route persistence between the aggregator and connectors
+ */
+
+import { Module } from '@nestjs/common';
+import { RouteStoreService } from './route-store.service';
+
+@Module({
+  providers: [RouteStoreService],
+  exports: [RouteStoreService],
+})
+export class RouteStoreModule {}
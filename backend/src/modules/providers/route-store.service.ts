@@ -0,0 +1,155 @@
+/**
+ * Route Store Service
+ * Persists quoted routes so they can be executed after the quote is returned
+ */
+
+import { Injectable, Logger } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '../../config/prisma.service';
+import { RedisService } from '../../config/redis.service';
+import { NormalizedRoute } from '../../common/interfaces';
+import { RouteStatus } from '../../common/constants';
+
+const ROUTE_PREFIX = 'route:';
+const ROUTE_TTL = 600; // Quoted routes stay executable for 10 minutes
+
+@Injectable()
+export class RouteStoreService {
+  private readonly logger = new Logger(RouteStoreService.name);
+
+  constructor(
+    private readonly prismaService: PrismaService,
+    private readonly redisService: RedisService,
+  ) {}
+
+  /**
+   * Store routes in Redis and write them through to the Route table.
+   * The database write is not awaited so quote latency is unaffected.
+   */
+  async saveRoutes(routes: NormalizedRoute[]): Promise<void> {
+    if (routes.length === 0) return;
+
+    const now = new Date();
+    const stored = routes.map((route) => ({
+      ...route,
+      created_at: route.created_at ?? now,
+      expires_at:
+        route.expires_at ?? new Date(now.getTime() + ROUTE_TTL * 1000),
+    }));
+
+    await Promise.all(
+      stored.map(async (route) => {
+        try {
+          await this.redisService.setJson(
+            ROUTE_PREFIX + route.route_id,
+            route,
+            ROUTE_TTL,
+          );
+        } catch (error) {
+          this.logger.warn(
+            `Failed to cache route ${route.route_id}: ${(error as Error).message}`,
+          );
+        }
+      }),
+    );
+
+    this.persistRoutes(stored).catch((error: Error) =>
+      this.logger.warn(`Failed to persist routes: ${error.message}`),
+    );
+  }
+
+  /**
+   * Resolve a stored route by id — Redis first, then the Route table.
+   * Returns null when the route is unknown or expired.
+   */
+  async getRoute(routeId: string): Promise<NormalizedRoute | null> {
+    try {
+      const cached = await this.redisService.getJson<NormalizedRoute>(
+        ROUTE_PREFIX + routeId,
+      );
+      if (cached) {
+        // JSON round-trip turns the dates into ISO strings
+        const route: NormalizedRoute = {
+          ...cached,
+          created_at: cached.created_at && new Date(cached.created_at),
+          expires_at: cached.expires_at && new Date(cached.expires_at),
+        };
+        if (route.expires_at && route.expires_at < new Date()) return null;
+        return route;
+      }
+    } catch (error) {
+      this.logger.warn(`Route cache read failed: ${(error as Error).message}`);
+    }
+
+    try {
+      const row = await this.prismaService.route.findUnique({
+        where: { id: routeId },
+      });
+      if (!row || row.expires_at < new Date()) return null;
+
+      return {
+        route_id: row.id,
+        provider: row.provider,
+        source_chain: row.source_chain,
+        destination_chain: row.destination_chain,
+        source_token: row.source_token,
+        destination_token: row.destination_token,
+        input_amount: row.input_amount,
+        output_amount: row.output_amount,
+        total_fee: row.total_fee as unknown as NormalizedRoute['total_fee'],
+        estimated_time: row.estimated_time,
+        slippage_tolerance: row.slippage_tolerance,
+        slippage_risk: row.slippage_risk as NormalizedRoute['slippage_risk'],
+        reliability_score: row.reliability_score,
+        liquidity_score: row.liquidity_score,
+        steps: row.steps as unknown as NormalizedRoute['steps'],
+        raw_provider_data: row.raw_provider_data,
+        approximate: row.approximate,
+        created_at: row.created_at,
+        expires_at: row.expires_at,
+      };
+    } catch (error) {
+      this.logger.warn(
+        `Route lookup failed for ${routeId}: ${(error as Error).message}`,
+      );
+      return null;
+    }
+  }
+
+  /**
+   * Make sure a route row exists before something references it
+   * (e.g. an Execution). No-op when the write-through already landed.
+   */
+  async persistRoute(route: NormalizedRoute): Promise<void> {
+    await this.persistRoutes([route]);
+  }
+
+  private async persistRoutes(routes: NormalizedRoute[]): Promise<void> {
+    await this.prismaService.route.createMany({
+      data: routes.map((route) => ({
+        id: route.route_id,
+        provider: route.provider,
+        source_chain: route.source_chain,
+        destination_chain: route.destination_chain,
+        source_token: route.source_token,
+        destination_token: route.destination_token,
+        input_amount: route.input_amount,
+        output_amount: route.output_amount,
+        total_fee: route.total_fee as unknown as Prisma.InputJsonValue,
+        estimated_time: Math.round(route.estimated_time),
+        slippage_tolerance: route.slippage_tolerance,
+        slippage_risk: route.slippage_risk,
+        reliability_score: route.reliability_score,
+        liquidity_score: route.liquidity_score,
+        steps: route.steps as unknown as Prisma.InputJsonValue,
+        raw_provider_data: (route.raw_provider_data ??
+          {}) as Prisma.InputJsonValue,
+        approximate: route.approximate ?? false,
+        status: RouteStatus.QUOTE_READY,
+        created_at: route.created_at,
+        expires_at: route.expires_at!,
+      })),
+      skipDuplicates: true,
+    });
+  }
+}
@@ -3,12 +3,27 @@
  * Handles quote aggregation requests
  */
 
-import { Controller, Post, Body, Get, Query, Param, Logger, HttpException, HttpStatus } from '@nestjs/common';
+import { Controller, Post, Body, Get, Query, Param, Logger, HttpException, HttpStatus, Sse, MessageEvent } from '@nestjs/common';
+import { Observable } from 'rxjs';
 import { QuoteAggregatorService } from '../providers/quote-aggregator.service';
 import { ChangenowService } from '../providers/changenow/changenow.service';
-import { RouteComparisonService } from '../routes/route-comparison.service';
-import { GetQuoteRequestDto, QuoteResponseDto } from '../../common/dto';
+import { ProviderCallService } from '../providers/provider-call.service';
+import { ChangenowExchangeWatcher } from '../realtime/changenow-exchange-watcher.service';
+import {
+  RouteComparisonService,
+  RankedRoute,
+} from '../routes/route-comparison.service';
+import {
+  GetQuoteRequestDto,
+  StreamQuoteRequestDto,
+  NormalizedRouteDto,
+  QuoteResponseDto,
+} from '../../common/dto';
+import { NormalizedRoute } from '../../common/interfaces';
+import { RateLimit } from '../api-keys/rate-limit.decorator';
+import { RateLimitCategory } from '../../common/constants';
 
+@RateLimit(RateLimitCategory.QUOTE)
 @Controller('quotes')
 export class QuotesController {
   private readonly logger = new Logger(QuotesController.name);
@@ -17,6 +32,8 @@ export class QuotesController {
     private readonly quoteAggregator: QuoteAggregatorService,
     private readonly changenowService: ChangenowService,
     private readonly routeComparison: RouteComparisonService,
+    private readonly exchangeWatcher: ChangenowExchangeWatcher,
+    private readonly providerCalls: ProviderCallService,
   ) {}
 
   /**
@@ -35,14 +52,22 @@ export class QuotesController {
     this.logger.log(`ChangeNOW rate: ${sourceChain} → ${destChain}`);
 
     try {
-      const route = await this.changenowService.getQuote({
-        source_chain: sourceChain,
-        destination_chain: destChain,
-        source_token: sourceToken,
-        destination_token: destToken,
-        amount,
-        slippage_tolerance: parseFloat(slippage || '1'),
-      });
+      const route = await this.providerCalls.execute(
+        this.changenowService,
+        'getQuote',
+        (signal) =>
+          this.changenowService.getQuote(
+            {
+              source_chain: sourceChain,
+              destination_chain: destChain,
+              source_token: sourceToken,
+              destination_token: destToken,
+              amount,
+              slippage_tolerance: parseFloat(slippage || '1'),
+            },
+            signal,
+          ),
+      );
 
       // amount is human-readable (e.g. "10" for 10 SOL), no decimals conversion needed
       const inputHuman = parseFloat(amount);
@@ -101,14 +126,25 @@ export class QuotesController {
     );
 
     try {
-      const exchange = await this.changenowService.createExchange({
-        fromCurrency,
-        toCurrency,
-        fromNetwork,
-        toNetwork,
-        fromAmount: body.amount,
-        payoutAddress: body.payout_address,
-      });
+      // Not retried: a timed-out request may still have created the exchange
+      const exchange = await this.providerCalls.execute(
+        this.changenowService,
+        'createExchange',
+        (signal) =>
+          this.changenowService.createExchange(
+            {
+              fromCurrency,
+              toCurrency,
+              fromNetwork,
+              toNetwork,
+              fromAmount: body.amount,
+              payoutAddress: body.payout_address,
+            },
+            signal,
+          ),
+        { retry: false },
+      );
+      await this.exchangeWatcher.track(exchange.id, body.payout_address);
 
       return {
         success: true,
@@ -138,7 +174,11 @@ export class QuotesController {
   @Get('changenow-status/:exchangeId')
   async getChangeNowStatus(@Param('exchangeId') exchangeId: string) {
     try {
-      const detail = await this.changenowService.getExchangeDetail(exchangeId);
+      const detail = await this.providerCalls.execute(
+        this.changenowService,
+        'getExchangeDetail',
+        (signal) => this.changenowService.getExchangeDetail(exchangeId, signal),
+      );
       return {
         success: true,
         exchange_id: detail.id,
@@ -225,47 +265,160 @@ export class QuotesController {
     );
 
     const response: QuoteResponseDto = {
-      routes: rankedRoutes.map((route) => ({
-        route_id: route.route_id,
-        provider: route.provider,
-        source_chain: route.source_chain,
-        destination_chain: route.destination_chain,
-        source_token: route.source_token,
-        destination_token: route.destination_token,
-        input_amount: route.input_amount,
-        output_amount: route.output_amount,
-        total_fee: {
-          gas_fee: route.total_fee.network_fee,
-          protocol_fee: route.total_fee.protocol_fee,
-          total_fee: route.total_fee.network_fee,
-          fee_token: 'ETH',
-        },
-        estimated_time: route.estimated_time,
-        slippage_tolerance: route.slippage_tolerance,
-        slippage_risk: route.slippage_risk,
-        reliability_score: route.reliability_score,
-        liquidity_score: route.liquidity_score,
-        score: route.score,
-        rank: route.rank,
-        steps: route.steps.map((step) => ({
-          step_number: step.step_number,
-          action_type: step.action,
-          provider: route.provider,
-          chain: step.chain || route.source_chain,
-          token_in: step.from_token,
-          token_out: step.to_token,
-          amount_in: '0',
-          amount_out: step.expected_output,
-          estimated_time: 60,
-        })),
-      })),
+      routes: rankedRoutes.map((route) => this.toRouteDto(route)),
       total_routes: result.total_routes,
       recommended_route_id: rankedRoutes[0]?.route_id || '',
       strategy_used: request.strategy || 'lowest_cost',
       response_time_ms: result.response_time_ms,
       provider_statuses: result.provider_statuses,
+      cache_status: result.cache_status,
     };
 
     return response;
   }
+
+  /**
+   * GET /quotes/stream?source_chain=solana&destination_chain=ethereum&...
+   * Server-sent events: a `route` event per provider as soon as it answers
+   * (with the re-ranked ordering so far), then a `summary` event.
+   * Browser EventSource clients pass their key as `api_key` in the query.
+   */
+  @Sse('stream')
+  streamQuotes(
+    @Query() request: StreamQuoteRequestDto,
+  ): Observable<MessageEvent> {
+    const strategy = request.strategy || 'lowest_cost';
+    this.logger.log(
+      `Quote stream: ${request.source_chain} → ${request.destination_chain} (strategy: ${strategy})`,
+    );
+
+    return new Observable<MessageEvent>((subscriber) => {
+      const received: NormalizedRoute[] = [];
+      // Set when the client disconnects — stop emitting into a closed stream
+      let cancelled = false;
+      // Ranking hits the DB — chain it so events go out in arrival order
+      let ranking = Promise.resolve();
+
+      const onRoute = (route: NormalizedRoute) => {
+        received.push(route);
+        const snapshot = [...received];
+        ranking = ranking
+          .then(async () => {
+            if (cancelled) return;
+            const ranked = await this.routeComparison.scoreAndRankRoutes(
+              snapshot,
+              strategy,
+              request.user_wallet,
+            );
+            if (cancelled) return;
+            const current = ranked.find((r) => r.route_id === route.route_id);
+            subscriber.next({
+              type: 'route',
+              data: {
+                provider: route.provider,
+                route: current ? this.toRouteDto(current) : undefined,
+                routes: ranked.map((r) => this.toRouteDto(r)),
+                recommended_route_id: ranked[0]?.route_id || '',
+              },
+            });
+          })
+          // A failed ranking step must not break the chain for later routes
+          .catch((error: Error) => {
+            this.logger.warn(
+              `Quote stream ranking failed for ${route.provider}: ${error.message}`,
+            );
+            if (!cancelled) {
+              subscriber.next({
+                type: 'error',
+                data: { provider: route.provider, message: error.message },
+              });
+            }
+          });
+      };
+
+      this.quoteAggregator
+        .aggregateQuotes(
+          {
+            source_chain: request.source_chain,
+            destination_chain: request.destination_chain,
+            source_token: request.source_token,
+            destination_token: request.destination_token,
+            amount: request.input_amount,
+            slippage_tolerance: request.slippage_tolerance,
+            user_wallet: request.user_wallet,
+          },
+          onRoute,
+        )
+        .then(async (result) => {
+          await ranking;
+          if (cancelled) return;
+          const ranked = await this.routeComparison.scoreAndRankRoutes(
+            result.routes,
+            strategy,
+            request.user_wallet,
+          );
+          if (cancelled) return;
+          subscriber.next({
+            type: 'summary',
+            data: {
+              total_routes: result.total_routes,
+              recommended_route_id: ranked[0]?.route_id || '',
+              strategy_used: strategy,
+              response_time_ms: result.response_time_ms,
+              provider_statuses: result.provider_statuses,
+              cache_status: result.cache_status,
+            },
+          });
+          subscriber.complete();
+        })
+        .catch((error: Error) => {
+          this.logger.error(`Quote stream error: ${error.message}`);
+          if (cancelled) return;
+          subscriber.next({ type: 'error', data: { message: error.message } });
+          subscriber.complete();
+        });
+
+      return () => {
+        cancelled = true;
+      };
+    });
+  }
+
+  private toRouteDto(route: RankedRoute): NormalizedRouteDto {
+    return {
+      route_id: route.route_id,
+      provider: route.provider,
+      source_chain: route.source_chain,
+      destination_chain: route.destination_chain,
+      source_token: route.source_token,
+      destination_token: route.destination_token,
+      input_amount: route.input_amount,
+      output_amount: route.output_amount,
+      total_fee: {
+        gas_fee: route.total_fee.network_fee,
+        protocol_fee: route.total_fee.protocol_fee,
+        total_fee: route.total_fee.network_fee,
+        fee_token: 'ETH',
+      },
+      estimated_time: route.estimated_time,
+      slippage_tolerance: route.slippage_tolerance,
+      slippage_risk: route.slippage_risk,
+      reliability_score: route.reliability_score,
+      liquidity_score: route.liquidity_score,
+      score: route.score,
+      rank: route.rank,
+      approximate: route.approximate,
+      steps: route.steps.map((step) => ({
+        step_number: step.step_number,
+        action_type: step.action,
+        provider: route.provider,
+        chain: step.chain || route.source_chain,
+        token_in: step.from_token,
+        token_out: step.to_token,
+        amount_in: '0',
+        amount_out: step.expected_output,
+        estimated_time: 60,
+      })),
+    };
+  }
 }
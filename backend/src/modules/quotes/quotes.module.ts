@@ -7,9 +7,10 @@ import { Module } from '@nestjs/common';
 import { QuotesController } from './quotes.controller';
 import { ProvidersModule } from '../providers/providers.module';
 import { RoutesModule } from '../routes/routes.module';
+import { RealtimeModule } from '../realtime/realtime.module';
 
 @Module({
-  imports: [ProvidersModule, RoutesModule],
+  imports: [ProvidersModule, RoutesModule, RealtimeModule],
   controllers: [QuotesController],
 })
 export class QuotesModule {}
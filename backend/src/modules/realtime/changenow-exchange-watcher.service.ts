@@ -0,0 +1,168 @@
+/**
+ * ChangeNOW Exchange Watcher
+ * Polls tracked ChangeNOW exchanges and publishes their state transitions
+ * (waiting -> confirming -> exchanging -> sending -> finished) to
+ * WebSocket subscribers, so the frontend no longer has to poll
+ */
+
+import { Injectable, Logger } from '@nestjs/common';
+import { Interval } from '@nestjs/schedule';
+import { AppConfigService } from '../../config/app-config.service';
+import { RedisService } from '../../config/redis.service';
+import { ChangenowService } from '../providers/changenow/changenow.service';
+import { ProviderCallService } from '../providers/provider-call.service';
+import { RealtimeEventsService } from './realtime-events.service';
+
+const POLL_INTERVAL_MS = 15000;
+const MAX_TRACK_TIME_MS = 24 * 60 * 60 * 1000; // Exchanges expire well before this
+const FAILED_STATUSES = ['failed', 'refunded', 'expired'];
+const TERMINAL_STATUSES = ['finished', ...FAILED_STATUSES];
+// Hash of exchange id -> TrackedExchange, shared by all instances
+const TRACKED_EXCHANGES_KEY = 'changenow:tracked-exchanges';
+
+interface TrackedExchange {
+  wallet: string;
+  tracked_at: number;
+}
+
+@Injectable()
+export class ChangenowExchangeWatcher {
+  private readonly logger = new Logger(ChangenowExchangeWatcher.name);
+  // Used only while Redis is unavailable (single instance)
+  private readonly localExchanges = new Map<string, TrackedExchange>();
+  // Last status this instance published — each instance notifies its own
+  // sockets, so this stays local. Pruned to the tracked set on every poll.
+  private readonly statuses = new Map<string, string>();
+
+  constructor(
+    private readonly configService: AppConfigService,
+    private readonly redisService: RedisService,
+    private readonly changenowService: ChangenowService,
+    private readonly realtimeEvents: RealtimeEventsService,
+    private readonly providerCalls: ProviderCallService,
+  ) {}
+
+  /**
+   * Start watching an exchange created through this API. Updates go to the
+   * payout wallet's room.
+   */
+  async track(exchangeId: string, wallet: string): Promise<void> {
+    if (!this.configService.getFeatureFlags().websockets) return;
+
+    const tracked: TrackedExchange = { wallet, tracked_at: Date.now() };
+    const client = this.redisService.getClient();
+    if (!client) {
+      this.localExchanges.set(exchangeId, tracked);
+      return;
+    }
+
+    try {
+      await client.hset(
+        TRACKED_EXCHANGES_KEY,
+        exchangeId,
+        JSON.stringify(tracked),
+      );
+    } catch (error) {
+      this.logger.warn(
+        `Failed to track ChangeNOW exchange ${exchangeId}: ${(error as Error).message}`,
+      );
+    }
+  }
+
+  @Interval(POLL_INTERVAL_MS)
+  async pollExchanges() {
+    const exchanges = await this.getTrackedExchanges();
+    for (const exchangeId of this.statuses.keys()) {
+      if (!exchanges.has(exchangeId)) this.statuses.delete(exchangeId);
+    }
+    if (exchanges.size === 0) return;
+
+    await Promise.allSettled(
+      Array.from(exchanges.entries()).map(([exchangeId, tracked]) =>
+        this.pollExchange(exchangeId, tracked),
+      ),
+    );
+  }
+
+  private async pollExchange(exchangeId: string, tracked: TrackedExchange) {
+    if (Date.now() - tracked.tracked_at > MAX_TRACK_TIME_MS) {
+      await this.untrack(exchangeId);
+      return;
+    }
+    let detail: Awaited<ReturnType<ChangenowService['getExchangeDetail']>>;
+    try {
+      // No retries — the next poll is the retry
+      detail = await this.providerCalls.execute(
+        this.changenowService,
+        'getExchangeDetail',
+        (signal) => this.changenowService.getExchangeDetail(exchangeId, signal),
+        { retry: false },
+      );
+    } catch (error) {
+      this.logger.warn(
+        `Failed to poll ChangeNOW exchange ${exchangeId}: ${(error as Error).message}`,
+      );
+      return;
+    }
+
+    const previousStatus = this.statuses.get(exchangeId);
+    if (detail.status !== previousStatus) {
+      this.logger.log(
+        `ChangeNOW exchange ${exchangeId}: ${previousStatus ?? 'new'} -> ${detail.status}`,
+      );
+      this.realtimeEvents.publishExchangeStatus(
+        {
+          exchange_id: detail.id,
+          status: detail.status,
+          previous_status: previousStatus,
+          payout_hash: detail.payoutHash ?? null,
+          payin_hash: detail.payinHash ?? null,
+          from_amount: detail.fromAmount,
+          to_amount: detail.toAmount,
+          is_complete: detail.status === 'finished',
+          is_failed: FAILED_STATUSES.includes(detail.status),
+        },
+        tracked.wallet,
+      );
+      this.statuses.set(exchangeId, detail.status);
+    }
+
+    if (TERMINAL_STATUSES.includes(detail.status)) {
+      await this.untrack(exchangeId);
+    }
+  }
+
+  private async getTrackedExchanges(): Promise<Map<string, TrackedExchange>> {
+    const client = this.redisService.getClient();
+    if (!client) return this.localExchanges;
+
+    try {
+      const entries = await client.hgetall(TRACKED_EXCHANGES_KEY);
+      return new Map(
+        Object.entries(entries).map(([exchangeId, value]) => [
+          exchangeId,
+          JSON.parse(value) as TrackedExchange,
+        ]),
+      );
+    } catch (error) {
+      this.logger.warn(
+        `Failed to load tracked ChangeNOW exchanges: ${(error as Error).message}`,
+      );
+      return new Map();
+    }
+  }
+
+  private async untrack(exchangeId: string): Promise<void> {
+    this.localExchanges.delete(exchangeId);
+    this.statuses.delete(exchangeId);
+    try {
+      await this.redisService
+        .getClient()
+        ?.hdel(TRACKED_EXCHANGES_KEY, exchangeId);
+    } catch (error) {
+      this.logger.warn(
+        `Failed to untrack ChangeNOW exchange ${exchangeId}: ${(error as Error).message}`,
+      );
+    }
+  }
+}
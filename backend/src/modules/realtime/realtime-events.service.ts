@@ -0,0 +1,131 @@
+/**
+ * Realtime Events Service
+ * In-process bus for live updates pushed to WebSocket subscribers.
+ * Every event is addressed to the wallet / execution rooms a client can
+ * subscribe to.
+ */
+
+import { Injectable } from '@nestjs/common';
+import { Execution } from '@prisma/client';
+import { Observable, Subject } from 'rxjs';
+import {
+  ExecutionStatus,
+  ExecutionStatusUpdate,
+} from '../../common/interfaces';
+import {
+  Execution as AgentExecution,
+  SignRequest,
+} from '../ai/interfaces/ai.interfaces';
+
+export type RealtimeEventName =
+  | 'execution_status'
+  | 'sign_request'
+  | 'exchange_status'
+  | 'plan_progress';
+
+export interface RealtimeEvent {
+  event: RealtimeEventName;
+  rooms: string[];
+  data: unknown;
+}
+
+export interface ExchangeStatusEvent {
+  exchange_id: string;
+  status: string;
+  previous_status?: string;
+  payout_hash: string | null;
+  payin_hash: string | null;
+  from_amount: string;
+  to_amount: string;
+  is_complete: boolean;
+  is_failed: boolean;
+}
+
+// EVM addresses are case-insensitive; Solana addresses are not
+export const walletRoom = (wallet: string) =>
+  `wallet:${wallet.startsWith('0x') ? wallet.toLowerCase() : wallet}`;
+export const executionRoom = (executionId: string) =>
+  `execution:${executionId}`;
+
+@Injectable()
+export class RealtimeEventsService {
+  private readonly events = new Subject<RealtimeEvent>();
+
+  get events$(): Observable<RealtimeEvent> {
+    return this.events.asObservable();
+  }
+
+  /**
+   * Execution status change, optionally enriched with the provider's view
+   * (destination hash, received amount, substatus)
+   */
+  publishExecutionStatus(
+    execution: Execution,
+    update?: ExecutionStatusUpdate,
+  ): void {
+    const data: ExecutionStatusUpdate = {
+      ...update,
+      execution_id: execution.id,
+      status: execution.status as ExecutionStatus,
+      transaction_hash: execution.transaction_hash ?? undefined,
+      received_amount:
+        update?.received_amount ?? execution.actual_output ?? undefined,
+      error_message:
+        update?.error_message ?? execution.failure_reason ?? undefined,
+      timestamp: update?.timestamp ?? new Date(),
+    };
+
+    this.events.next({
+      event: 'execution_status',
+      rooms: [walletRoom(execution.user_wallet), executionRoom(execution.id)],
+      data,
+    });
+  }
+
+  publishSignRequest(request: SignRequest): void {
+    this.events.next({
+      event: 'sign_request',
+      rooms: [
+        walletRoom(request.walletAddress),
+        executionRoom(request.executionId),
+      ],
+      data: request,
+    });
+  }
+
+  /**
+   * ChangeNOW exchange transition, sent to the exchange's payout wallet
+   */
+  publishExchangeStatus(update: ExchangeStatusEvent, wallet: string): void {
+    this.events.next({
+      event: 'exchange_status',
+      rooms: [walletRoom(wallet)],
+      data: update,
+    });
+  }
+
+  /**
+   * Agent execution plan progress (current step and per-step status)
+   */
+  publishPlanProgress(execution: AgentExecution): void {
+    this.events.next({
+      event: 'plan_progress',
+      rooms: [walletRoom(execution.walletAddress), executionRoom(execution.id)],
+      data: {
+        execution_id: execution.id,
+        status: execution.status,
+        plan_status: execution.planSnapshot.status,
+        current_step_number: execution.currentStepNumber,
+        steps: execution.planSnapshot.steps.map((step) => ({
+          step_number: step.stepNumber,
+          action: step.action,
+          description: step.description,
+          status: step.status,
+          transaction_hash: step.transactionHash,
+        })),
+        error: execution.error,
+        updated_at: execution.updatedAt,
+      },
+    });
+  }
+}
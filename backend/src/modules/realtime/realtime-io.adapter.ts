@@ -0,0 +1,24 @@
+/**
+ * Realtime Socket.IO Adapter
+ * Applies the HTTP CORS origins to the WebSocket server as well
+ */
+
+import { INestApplicationContext } from '@nestjs/common';
+import { IoAdapter } from '@nestjs/platform-socket.io';
+import { Server, ServerOptions } from 'socket.io';
+
+export class RealtimeIoAdapter extends IoAdapter {
+  constructor(
+    app: INestApplicationContext,
+    private readonly corsOrigins: string[],
+  ) {
+    super(app);
+  }
+
+  create(port: number, options?: Partial<ServerOptions>): Server {
+    return super.create(port, {
+      ...options,
+      cors: { origin: this.corsOrigins, credentials: true },
+    } as ServerOptions);
+  }
+}
@@ -0,0 +1,175 @@
+/**
+ * Realtime Gateway
+ * Socket.IO gateway (namespace /realtime) pushing execution status changes,
+ * new sign requests, ChangeNOW exchange transitions and agent plan progress.
+ *
+ * Clients connect with a wallet sign-in token (`auth: { token }` or an
+ * `Authorization: Bearer` header), then emit `subscribe` / `unsubscribe`
+ * with { wallet, execution_id } for their own wallet and executions (bridge
+ * executions or agent plan executions). They
+ * receive `execution_status`, `sign_request`, `exchange_status` (for
+ * exchanges paying out to the wallet) and `plan_progress` events.
+ * Disabled (connections refused) when ENABLE_WEBSOCKETS is false.
+ */
+
+import { Logger, OnModuleDestroy, OnModuleInit } from '@nestjs/common';
+import {
+  ConnectedSocket,
+  MessageBody,
+  OnGatewayConnection,
+  SubscribeMessage,
+  WebSocketGateway,
+  WebSocketServer,
+  WsException,
+} from '@nestjs/websockets';
+import { Subscription } from 'rxjs';
+import { Server, Socket } from 'socket.io';
+import { AppConfigService } from '../../config/app-config.service';
+import { PrismaService } from '../../config/prisma.service';
+import { AuthService, WalletSession } from '../auth/auth.service';
+import { isSameWallet } from '../auth/wallet-signature.util';
+import { StateService } from '../ai/state.service';
+import {
+  executionRoom,
+  RealtimeEventsService,
+  walletRoom,
+} from './realtime-events.service';
+
+interface SubscriptionRequest {
+  wallet?: string;
+  execution_id?: string;
+}
+
+interface SocketData {
+  wallet?: WalletSession;
+}
+
+@WebSocketGateway({ namespace: 'realtime' })
+export class RealtimeGateway
+  implements OnGatewayConnection, OnModuleInit, OnModuleDestroy
+{
+  private readonly logger = new Logger(RealtimeGateway.name);
+  private subscription?: Subscription;
+
+  @WebSocketServer()
+  private readonly server: Server;
+
+  constructor(
+    private readonly configService: AppConfigService,
+    private readonly prismaService: PrismaService,
+    private readonly authService: AuthService,
+    private readonly realtimeEvents: RealtimeEventsService,
+    private readonly stateService: StateService,
+  ) {}
+
+  onModuleInit() {
+    this.subscription = this.realtimeEvents.events$.subscribe(
+      ({ event, rooms, data }) => {
+        this.server?.to(rooms).emit(event, data);
+      },
+    );
+  }
+
+  onModuleDestroy() {
+    this.subscription?.unsubscribe();
+  }
+
+  async handleConnection(client: Socket) {
+    if (!this.configService.getFeatureFlags().websockets) {
+      client.disconnect(true);
+      return;
+    }
+
+    const auth = client.handshake.auth as { token?: unknown } | undefined;
+    const [scheme, bearer] = (
+      client.handshake.headers.authorization ?? ''
+    ).split(' ');
+    const token =
+      typeof auth?.token === 'string'
+        ? auth.token
+        : scheme === 'Bearer'
+          ? bearer
+          : undefined;
+
+    try {
+      if (!token) throw new Error('missing token');
+      (client.data as SocketData).wallet =
+        await this.authService.verifyToken(token);
+    } catch {
+      this.logger.debug(`Client ${client.id} rejected: no valid wallet token`);
+      client.disconnect(true);
+    }
+  }
+
+  @SubscribeMessage('subscribe')
+  async subscribe(
+    @ConnectedSocket() client: Socket,
+    @MessageBody() request: SubscriptionRequest,
+  ) {
+    const rooms = await this.getRooms(client, request);
+    await client.join(rooms);
+
+    this.logger.debug(`Client ${client.id} subscribed to ${rooms.join(', ')}`);
+    return { subscribed: rooms };
+  }
+
+  @SubscribeMessage('unsubscribe')
+  async unsubscribe(
+    @ConnectedSocket() client: Socket,
+    @MessageBody() request: SubscriptionRequest,
+  ) {
+    const rooms = await this.getRooms(client, request);
+    for (const room of rooms) {
+      await client.leave(room);
+    }
+    return { unsubscribed: rooms };
+  }
+
+  /**
+   * Rooms the signed-in wallet may join: its own wallet room and the rooms
+   * of executions it owns
+   */
+  private async getRooms(
+    client: Socket,
+    request: SubscriptionRequest,
+  ): Promise<string[]> {
+    const session = (client.data as SocketData).wallet;
+    if (!session) throw new WsException('Not signed in');
+
+    const rooms: string[] = [];
+    if (typeof request?.wallet === 'string' && request.wallet) {
+      if (!isSameWallet(request.wallet, session.wallet)) {
+        throw new WsException('Wallet does not belong to this session');
+      }
+      rooms.push(walletRoom(session.wallet));
+    }
+    if (typeof request?.execution_id === 'string' && request.execution_id) {
+      const owner = await this.getExecutionOwner(request.execution_id);
+      if (!owner || !isSameWallet(owner, session.wallet)) {
+        throw new WsException(`Execution ${request.execution_id} not found`);
+      }
+      rooms.push(executionRoom(request.execution_id));
+    }
+    if (rooms.length === 0) {
+      throw new WsException('Provide at least one of wallet or execution_id');
+    }
+    return rooms;
+  }
+
+  /**
+   * Wallet behind an agent plan execution (kept in memory by StateService)
+   * or a bridge execution
+   */
+  private async getExecutionOwner(
+    executionId: string,
+  ): Promise<string | undefined> {
+    const plan = this.stateService.get(executionId);
+    if (plan) return plan.walletAddress;
+
+    const execution = await this.prismaService.execution.findUnique({
+      where: { id: executionId },
+      select: { user_wallet: true },
+    });
+    return execution?.user_wallet;
+  }
+}
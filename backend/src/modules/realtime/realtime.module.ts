@@ -0,0 +1,27 @@
+/**
+ * Realtime Module
+ * WebSocket push for executions, sign requests and ChangeNOW exchanges
+ */
+
+import { forwardRef, Module } from '@nestjs/common';
+import { RealtimeGateway } from './realtime.gateway';
+import { RealtimeEventsService } from './realtime-events.service';
+import { ChangenowExchangeWatcher } from './changenow-exchange-watcher.service';
+import { ProvidersModule } from '../providers/providers.module';
+import { AuthModule } from '../auth/auth.module';
+import { AiModule } from '../ai/ai.module';
+import { AppConfigService } from '../../config/app-config.service';
+
+@Module({
+  // AiModule publishes plan progress through this module; the gateway
+  // reads plan ownership from its StateService
+  imports: [ProvidersModule, AuthModule, forwardRef(() => AiModule)],
+  providers: [
+    AppConfigService,
+    RealtimeEventsService,
+    ChangenowExchangeWatcher,
+    RealtimeGateway,
+  ],
+  exports: [RealtimeEventsService, ChangenowExchangeWatcher],
+})
+export class RealtimeModule {}
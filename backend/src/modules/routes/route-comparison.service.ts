@@ -6,6 +6,7 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { ScoringService } from './scoring.service';
 import { StrategyService } from '../strategy/strategy.service';
+import { ProviderRegistry } from '../providers/provider-registry.service';
 import {
   NormalizedRoute,
   RouteScore,
@@ -25,6 +26,7 @@ export class RouteComparisonService {
   constructor(
     private readonly scoringService: ScoringService,
     private readonly strategyService: StrategyService,
+    private readonly providerRegistry: ProviderRegistry,
   ) {}
 
   /**
@@ -61,8 +63,13 @@ export class RouteComparisonService {
       }),
     );
 
-    // Sort by total score (highest first)
-    scoredRoutes.sort((a, b) => b.score.total_score - a.score.total_score);
+    // Sort by total score (highest first), ties go to the higher-priority provider
+    scoredRoutes.sort(
+      (a, b) =>
+        b.score.total_score - a.score.total_score ||
+        this.providerRegistry.getPriority(a.provider) -
+          this.providerRegistry.getPriority(b.provider),
+    );
 
     // Add ranking
     const rankedRoutes: RankedRoute[] = scoredRoutes.map((route, index) => ({
@@ -130,11 +137,18 @@ export class RouteComparisonService {
 
   /**
    * Get backup/alternative routes
+   * With excludeProvider, returns the best routes not served by that provider
    */
   getBackupRoutes(
     rankedRoutes: RankedRoute[],
     count: number = 2,
+    excludeProvider?: string,
   ): RankedRoute[] {
+    if (excludeProvider) {
+      return rankedRoutes
+        .filter((route) => route.provider !== excludeProvider)
+        .slice(0, count);
+    }
     return rankedRoutes.slice(1, count + 1);
   }
 
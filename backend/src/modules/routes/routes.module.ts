@@ -7,9 +7,10 @@ import { Module } from '@nestjs/common';
 import { ScoringService } from './scoring.service';
 import { RouteComparisonService } from './route-comparison.service';
 import { StrategyModule } from '../strategy/strategy.module';
+import { ProvidersModule } from '../providers/providers.module';
 
 @Module({
-  imports: [StrategyModule],
+  imports: [StrategyModule, ProvidersModule],
   providers: [ScoringService, RouteComparisonService],
   exports: [ScoringService, RouteComparisonService],
 })
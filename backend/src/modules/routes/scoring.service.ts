@@ -106,7 +106,8 @@ export class ScoringService {
   }
 
   /**
-   * Calculate reliability score from provider metrics
+   * Calculate reliability score from provider metrics: execution success
+   * rate, discounted by measured uptime
    */
   private async calculateReliabilityScore(
     route: NormalizedRoute,
@@ -121,8 +122,14 @@ export class ScoringService {
         return route.reliability_score;
       }
 
-      // Use success rate as reliability score
-      return providerMetrics.success_rate * 100;
+      // Health checks create the row before any execution has finished
+      const successScore =
+        providerMetrics.total_executions === 0
+          ? route.reliability_score
+          : providerMetrics.success_rate * 100;
+
+      // Uptime stays at its default of 100 until the first rollup
+      return (successScore * providerMetrics.uptime_percentage) / 100;
     } catch (error) {
       this.logger.warn(`Failed to fetch reliability for ${route.provider}`);
       return route.reliability_score;
@@ -3,14 +3,21 @@
  * Exposes strategy management endpoints
  */
 
-import { Controller, Get, Post, Body, Param, Logger } from '@nestjs/common';
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  Logger,
+  Req,
+  UseGuards,
+} from '@nestjs/common';
 import { StrategyService } from './strategy.service';
-import { ScoringWeights } from '../../common/interfaces';
-
-class SaveStrategyDto {
-  user_wallet: string;
-  weights: ScoringWeights;
-}
+import { SaveStrategyRequestDto } from '../../common/dto';
+import { Public } from '../api-keys/public.decorator';
+import { WalletAuthGuard } from '../auth/wallet-auth.guard';
+import type { WalletRequest } from '../auth/wallet-auth.guard';
 
 @Controller('strategy')
 export class StrategyController {
@@ -45,8 +52,15 @@ export class StrategyController {
     return strategyTemplate;
   }
 
+  // Saved for the signed-in wallet; a user_wallet in the body must match it.
+  // Account endpoint like /api-keys: the sign-in session, not an API key
   @Post('custom')
-  async saveCustomStrategy(@Body() dto: SaveStrategyDto) {
+  @Public()
+  @UseGuards(WalletAuthGuard)
+  async saveCustomStrategy(
+    @Body() dto: SaveStrategyRequestDto,
+    @Req() request: WalletRequest,
+  ) {
     try {
       const isValid = this.strategyService.validateWeights(dto.weights);
 
@@ -58,7 +72,10 @@ export class StrategyController {
         };
       }
 
-      await this.strategyService.saveUserStrategy(dto.user_wallet, dto.weights);
+      await this.strategyService.saveUserStrategy(
+        request.wallet!.wallet,
+        dto.weights,
+      );
 
       return {
         success: true,
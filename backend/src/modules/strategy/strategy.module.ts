@@ -6,8 +6,10 @@
 import { Module } from '@nestjs/common';
 import { StrategyService } from './strategy.service';
 import { StrategyController } from './strategy.controller';
+import { AuthModule } from '../auth/auth.module';
 
 @Module({
+  imports: [AuthModule],
   providers: [StrategyService],
   controllers: [StrategyController],
   exports: [StrategyService],
@@ -10,6 +10,7 @@ import {
   StrategyType,
 } from '../../common/interfaces';
 import { PrismaService } from '../../config/prisma.service';
+import { toWalletKey } from '../auth/wallet-signature.util';
 
 @Injectable()
 export class StrategyService {
@@ -154,10 +155,11 @@ export class StrategyService {
       throw new Error('Invalid weights configuration');
     }
 
+    const wallet = toWalletKey(userWallet);
     await this.prismaService.userPreference.upsert({
-      where: { user_wallet: userWallet },
+      where: { user_wallet: wallet },
       create: {
-        user_wallet: userWallet,
+        user_wallet: wallet,
         default_strategy: 'custom',
         custom_weights: weights as any,
       },
@@ -176,7 +178,7 @@ export class StrategyService {
   private async getUserPreferences(userWallet: string) {
     try {
       return await this.prismaService.userPreference.findUnique({
-        where: { user_wallet: userWallet },
+        where: { user_wallet: toWalletKey(userWallet) },
       });
     } catch (error) {
       this.logger.error(`Failed to fetch user preferences: ${error.message}`);